@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { POST } from '@/app/api/render/route';
+import { DEFAULT_SETTINGS, GRAPH_DOCUMENT_FORMAT, GRAPH_DOCUMENT_VERSION } from '@/lib/document';
+import { decodePng, encodePng } from '@/lib/png';
+
+const at = { x: 0, y: 0 };
+const settings = { ...DEFAULT_SETTINGS, width: 16, height: 8 };
+
+function graph(nodes: object[]) {
+  return {
+    format: GRAPH_DOCUMENT_FORMAT, version: GRAPH_DOCUMENT_VERSION, settings,
+    nodes: [...nodes, { id: 'out', type: 'display', position: at, data: {} }],
+    edges: [{ id: 'e', source: 'src', target: 'out', targetHandle: 'in' }],
+  };
+}
+
+function post(body: unknown) {
+  return POST(new Request('http://localhost/api/render', { method: 'POST', body: JSON.stringify(body) }));
+}
+
+async function image(response: Response): Promise<ImageData> {
+  expect(response.status).toBe(200);
+  expect(response.headers.get('Content-Type')).toBe('image/png');
+  return decodePng(new Uint8Array(await response.arrayBuffer()));
+}
+
+function dataUrl(bytes: Uint8Array, type = 'image/png') {
+  return `data:${type};base64,${btoa(String.fromCharCode(...bytes))}`;
+}
+
+describe('POST /api/render', () => {
+  it('renders a generator graph at the document size', async () => {
+    const img = await image(await post({ graph: graph([{ id: 'src', type: 'perlin', position: at, data: { scale: 4, seed: 1 } }]) }));
+    expect([img.width, img.height]).toEqual([16, 8]);
+    expect(new Set(img.data.filter((_, i) => i % 4 === 0)).size).toBeGreaterThan(1);
+  });
+
+  it('renders a graph without saved seeds the same way every time', async () => {
+    const body = { graph: graph([{ id: 'src', type: 'perlin', position: at, data: { scale: 4 } }]) };
+    const first = await image(await post(body));
+    expect((await image(await post(body))).data).toEqual(first.data);
+  });
+
+  it('renders embedded PNG images', async () => {
+    const source = new ImageData(3, 2);
+    source.data.set([255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 128, 10, 20, 30, 255, 40, 50, 60, 255, 70, 80, 90, 0]);
+    const node = { id: 'src', type: 'imageImport', position: at, data: { image: { name: 'a.png', src: dataUrl(encodePng(source)) }, fit: 'original' } };
+    const img = await image(await post({ graph: graph([node]) }));
+    expect([img.width, img.height]).toEqual([3, 2]);
+    expect(img.data).toEqual(source.data);
+  });
+
+  it('rejects images the server cannot decode', async () => {
+    const node = { id: 'src', type: 'imageImport', position: at, data: { image: { name: 'a.jpg', src: dataUrl(new Uint8Array([0xff, 0xd8]), 'image/jpeg') }, fit: 'original' } };
+    const response = await post({ graph: graph([node]) });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatch(/only embedded PNG images/);
+  });
+
+  it('reports invalid requests', async () => {
+    expect((await POST(new Request('http://localhost/api/render', { method: 'POST', body: '{' }))).status).toBe(400);
+    expect((await post({ graph: { nodes: [], edges: [] } })).status).toBe(404);
+    expect((await post({ graph: graph([{ id: 'src', type: 'nope', position: at, data: {} }]) })).status).toBe(400);
+  });
+});
@@ -0,0 +1,22 @@
+import { encodePng } from '@/lib/png';
+import { RenderError, renderDocument } from '@/lib/render';
+
+export const runtime = 'nodejs';
+
+// POST { graph, overrides?, output?, resolution?, frame? } -> image/png
+// Image nodes must embed PNG data URLs; other formats get a 400.
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (e) {
+    return Response.json({ error: 'Request body is not valid JSON' }, { status: 400 });
+  }
+  try {
+    const image = await renderDocument(body as any);
+    return new Response(encodePng(image), { headers: { 'Content-Type': 'image/png', 'Cache-Control': 'no-store' } });
+  } catch (e) {
+    if (e instanceof RenderError) return Response.json({ error: e.message }, { status: e.status });
+    throw e;
+  }
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Node } from 'reactflow';
+import { GraphStatus } from '@/lib/graph';
+import { getNodeDefinition } from '@/lib/nodes';
+import { StatusBadge } from '@/components/GraphNode';
+
+const severity = { error: 0, 'missing-input': 1, warning: 2, ok: 3 };
+
+// Collapsible list of every node that didn't evaluate cleanly
+export function DiagnosticsPanel({ nodes, status, onSelect }: { nodes: Node[]; status: GraphStatus; onSelect: (nodeId: string) => void }) {
+  const [open, setOpen] = useState(true);
+  const problems = nodes
+    .filter(n => status[n.id] && status[n.id].level !== 'ok')
+    .sort((a, b) => severity[status[a.id].level] - severity[status[b.id].level]);
+
+  return (
+    <div className="panel rounded-lg w-80 text-sm">
+      <button className="w-full px-3 py-2 flex items-center justify-between" onClick={() => setOpen(o => !o)}>
+        <span className="label">Diagnostics</span>
+        <span className={problems.length ? 'text-red-200' : 'text-[var(--muted)]'}>{problems.length ? `${problems.length} problem${problems.length > 1 ? 's' : ''}` : 'No problems'} {open ? '▾' : '▸'}</span>
+      </button>
+      {open && problems.length > 0 && (
+        <div className="border-t border-white/10 max-h-56 overflow-y-auto">
+          {problems.map(n => (
+            <div key={n.id} className="context-item items-start" onClick={() => onSelect(n.id)}>
+              <StatusBadge status={status[n.id]} />
+              <div className="min-w-0">
+                <div className="text-white/90">{(n.type === 'group' && n.data?.title) || getNodeDefinition(n.type)?.title || n.type} <span className="text-[var(--muted)]">#{n.id}</span></div>
+                {status[n.id].message && <div className="text-xs text-[var(--muted)] break-words">{status[n.id].message}</div>}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import React, { useState } from 'react';
+import { ExportOutput, outputFileName } from '@/lib/export';
+import { DocumentSettings } from '@/lib/document';
+
+type ExportPanelProps = {
+  outputs: ExportOutput[];
+  settings: DocumentSettings;
+  onExport: (output: ExportOutput) => void;
+  onExportAll: () => void;
+  onCancel: () => void;
+  // share of the work done while an export runs
+  progress: number | null;
+};
+
+// Every display node of the document with its export settings
+export function ExportPanel({ outputs, settings, onExport, onExportAll, onCancel, progress }: ExportPanelProps) {
+  const [open, setOpen] = useState(false);
+  const busy = progress !== null;
+
+  return (
+    <div className="panel rounded-lg w-72 text-sm">
+      <button className="w-full px-3 py-2 flex items-center justify-between" onClick={() => setOpen(o => !o)}>
+        <span className="label">Export</span>
+        <span className="text-[var(--muted)]">
+          {busy ? `Rendering ${Math.round(progress * 100)}%` : `${outputs.length} output${outputs.length === 1 ? '' : 's'}`} {open ? '▾' : '▸'}
+        </span>
+      </button>
+      {busy && (
+        <div className="border-t border-white/10 px-3 py-1.5 flex items-center gap-2">
+          <div className="h-1 flex-1 rounded bg-white/10">
+            <div className="h-1 rounded bg-[var(--accent)]" style={{ width: `${progress * 100}%` }} />
+          </div>
+          <button className="btn text-xs" onClick={onCancel}>Cancel</button>
+        </div>
+      )}
+      {open && (
+        <div className="border-t border-white/10">
+          {outputs.length === 0 && <div className="px-3 py-2 text-xs text-[var(--muted)]">Add a Display Image node to export its input.</div>}
+          <div className="max-h-56 overflow-y-auto">
+            {outputs.map(o => (
+              <div key={o.id} className="flex items-center gap-2 px-3 py-1.5">
+                <div className="min-w-0 flex-1">
+                  <div className="truncate text-white/90" title={outputFileName(o)}>{outputFileName(o)}</div>
+                  <div className="text-xs text-[var(--muted)]">
+                    {(o.size ?? settings).width}×{(o.size ?? settings).height} · {o.format.toUpperCase()}{o.format !== 'png' && ` ${o.quality}%`} <span className="text-white/30">#{o.id}</span>
+                  </div>
+                </div>
+                <button className="btn text-xs" disabled={busy} onClick={() => onExport(o)}>Export</button>
+              </div>
+            ))}
+          </div>
+          {outputs.length > 0 && (
+            <div className="border-t border-white/10 p-2">
+              <button className="btn btn-primary w-full text-xs" disabled={busy} onClick={onExportAll}>Export All (ZIP)</button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+"use client";
+
+import React, { useEffect, useRef } from 'react';
+import { Handle, NodeProps, NodeTypes, Position } from 'reactflow';
+import clsx from 'classnames';
+import { GraphOutputs, GraphStatus, NodeStatus } from '@/lib/graph';
+import { CustomParam, NodeDefinition, ParamSpec, getNodeDefinition, listNodeDefinitions, nodePorts } from '@/lib/nodes';
+import type { GroupParams, PromotedParam } from '@/lib/nodes/groups';
+import { isAnimatable, removeKeyframe, sampleTrack, setKeyframe, tracksOf, withTrack } from '@/lib/animation';
+
+export type ImageDataRef = ImageData | null;
+
+export type GraphNodeData = {
+  title: string;
+  onChange?: (key?: string) => void;
+  [param: string]: unknown;
+};
+
+// Evaluated outputs are provided through context rather than written back
+// into node data, so previews never feed another evaluation
+type EvaluationState = { outputs: GraphOutputs; pending: ReadonlySet<string>; status: GraphStatus };
+export const EvaluationContext = React.createContext<EvaluationState>({ outputs: {}, pending: new Set(), status: {} });
+
+// Current frame of the animation timeline
+export const TimelineContext = React.createContext({ frame: 0 });
+
+// Renders and downloads one display node at its export settings
+type ExportState = { exportOutput: (id: string) => void; exporting: boolean };
+export const ExportContext = React.createContext<ExportState>({ exportOutput: () => {}, exporting: false });
+
+function useNodeOutput(id: string): ImageDataRef {
+  return React.useContext(EvaluationContext).outputs[id] ?? null;
+}
+
+function useNodePending(id: string): boolean {
+  return React.useContext(EvaluationContext).pending.has(id);
+}
+
+export const statusLabels: Record<NodeStatus['level'], string> = { ok: 'ok', warning: 'warning', error: 'error', 'missing-input': 'missing input' };
+
+export function StatusBadge({ status }: { status: NodeStatus }) {
+  return <div className={`status-badge status-${status.level}`} title={status.message}>{statusLabels[status.level]}</div>;
+}
+
+function NodeContainer({ id, title, children }: { id: string; title: string; children: React.ReactNode }) {
+  const computing = useNodePending(id);
+  const status = React.useContext(EvaluationContext).status[id];
+  const problem = status && status.level !== 'ok' ? status : null;
+  return (
+    <div className={clsx('panel rounded-lg min-w-[240px] shadow-soft', problem && `node-${problem.level}`)}>
+      <div className="px-3 py-2 border-b border-white/10 flex items-center justify-between gap-2">
+        <div className="text-sm font-semibold text-white/90">{title}</div>
+        {problem && !computing && <StatusBadge status={problem} />}
+        {computing && <div className="flex items-center gap-1 text-xs text-[var(--muted)]"><span className="spinner" />computing</div>}
+      </div>
+      <div className="p-3 space-y-3">{children}</div>
+    </div>
+  );
+}
+
+export function Preview({ img, className = 'max-h-48' }: { img: ImageDataRef; className?: string }) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  useEffect(() => {
+    if (!canvasRef.current || !img) return;
+    const ctx = canvasRef.current.getContext('2d');
+    if (!ctx) return;
+    canvasRef.current.width = img.width;
+    canvasRef.current.height = img.height;
+    ctx.putImageData(img, 0, 0);
+  }, [img]);
+  return (
+    <div className="rounded-md overflow-hidden border border-white/10 bg-black/20">
+      <canvas ref={canvasRef} className={`w-full h-full ${className}`} />
+    </div>
+  );
+}
+
+// Parameter controls. Node packs with bespoke editors register them here and
+// reference them from a `custom` param spec.
+export type ParamControlProps = { spec: CustomParam; value: unknown; onChange: (value: unknown) => void };
+const customControls = new Map<string, React.ComponentType<ParamControlProps>>();
+
+export function registerParamControl(name: string, component: React.ComponentType<ParamControlProps>) {
+  customControls.set(name, component);
+}
+
+function ParamControl({ spec, value, set }: { spec: ParamSpec; value: unknown; set: (value: unknown) => void }) {
+  switch (spec.control) {
+    case 'number':
+    case 'range':
+      return <input className="input" type={spec.control} min={spec.min} max={spec.max} step={spec.step} value={value as number} onChange={(e) => set(Number(e.target.value))} />;
+    case 'color':
+      return <input className="input" type="color" value={value as string} onChange={(e) => set(e.target.value)} />;
+    case 'select':
+      return (
+        <select className="input" value={value as string} onChange={(e) => set(e.target.value)}>
+          {spec.options.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+      );
+    case 'toggle':
+      return <input type="checkbox" className="justify-self-start" checked={Boolean(value)} onChange={(e) => set(e.target.checked)} />;
+    case 'text':
+      return <input className="input" type="text" value={value as string} onChange={(e) => set(e.target.value)} />;
+    case 'custom': {
+      const Control = customControls.get(spec.component);
+      return Control ? <Control spec={spec} value={value} onChange={set} /> : <div className="text-xs text-red-300">Missing control “{spec.component}”</div>;
+    }
+  }
+}
+
+type KeyframeState = 'static' | 'animated' | 'key';
+type BoundParam = { key: string; spec: ParamSpec; value: unknown; set: (value: unknown) => void; keyframe?: { state: KeyframeState; toggle: () => void } };
+
+const keyframeSymbols: Record<KeyframeState, string> = { static: '◇', animated: '◇', key: '◆' };
+const keyframeTitles: Record<KeyframeState, string> = { static: 'Animate (add a keyframe here)', animated: 'Add a keyframe here', key: 'Remove this keyframe' };
+
+function ParamLabel({ param }: { param: BoundParam }) {
+  const { keyframe } = param;
+  return (
+    <div className="label flex items-center gap-1">
+      {keyframe && (
+        <button className={clsx('text-[11px] leading-none', keyframe.state === 'static' ? 'text-white/25 hover:text-white/60' : 'text-[var(--accent)]')} title={keyframeTitles[keyframe.state]} onClick={keyframe.toggle}>
+          {keyframeSymbols[keyframe.state]}
+        </button>
+      )}
+      {param.spec.label}
+    </div>
+  );
+}
+
+function ParamRows({ params }: { params: BoundParam[] }) {
+  if (!params.length) return null;
+  return (
+    <div className="grid grid-cols-2 gap-2 items-center">
+      {params.map(param => param.spec.control === 'custom' ? (
+        // custom editors get the full node width
+        <div key={param.key} className="col-span-2 space-y-1">
+          <ParamLabel param={param} />
+          <ParamControl spec={param.spec} value={param.value} set={param.set} />
+        </div>
+      ) : (
+        <React.Fragment key={param.key}>
+          <ParamLabel param={param} />
+          <ParamControl spec={param.spec} value={param.value} set={param.set} />
+        </React.Fragment>
+      ))}
+    </div>
+  );
+}
+
+// Binds one parameter of `data`. Animated parameters show their value at the
+// current frame and edits set a keyframe there; `write` applies the changed
+// fields of `data`.
+function bindParam(key: string, spec: ParamSpec, data: Record<string, unknown>, frame: number, write: (changes: Record<string, unknown>) => void): BoundParam {
+  if (!isAnimatable(spec)) return { key, spec, value: data[spec.key], set: value => write({ [spec.key]: value }) };
+  const tracks = tracksOf(data);
+  const track = tracks[spec.key];
+  const value = track ? sampleTrack(track, frame) : data[spec.key];
+  const state: KeyframeState = !track ? 'static' : track.some(k => k.frame === frame) ? 'key' : 'animated';
+  const toggle = () => {
+    if (state !== 'key') return write({ keyframes: withTrack(tracks, spec.key, setKeyframe(track, frame, value as number | string)) });
+    // removing the last keyframe leaves the parameter at that value
+    const rest = removeKeyframe(track!, frame);
+    write(rest.length ? { keyframes: withTrack(tracks, spec.key, rest) } : { keyframes: withTrack(tracks, spec.key, undefined), [spec.key]: value });
+  };
+  return {
+    key,
+    spec,
+    value,
+    set: next => write(track ? { keyframes: withTrack(tracks, spec.key, setKeyframe(track, frame, next as number | string)) } : { [spec.key]: next }),
+    keyframe: { state, toggle },
+  };
+}
+
+function ParamList({ def, data }: { def: NodeDefinition; data: GraphNodeData }) {
+  const { frame } = React.useContext(TimelineContext);
+  const params = def.params.filter(spec => spec.visible?.(data) ?? true);
+  return <ParamRows params={params.map(spec => bindParam(spec.key, spec, data, frame, changes => { Object.assign(data, changes); data.onChange?.(spec.key); }))} />;
+}
+
+function PortHandles({ def, data }: { def: NodeDefinition; data: GraphNodeData }) {
+  const { inputs, outputs } = nodePorts(def, data);
+  const offset = (i: number, n: number) => ({ top: `${((i + 1) / (n + 1)) * 100}%` });
+  return (
+    <>
+      {inputs.map((p, i) => <Handle key={p.id} type="target" position={Position.Left} id={p.id} title={`${p.label} (${p.type})`} className={`port-${p.type}`} style={offset(i, inputs.length)} />)}
+      {outputs.map((p, i) => <Handle key={p.id} type="source" position={Position.Right} id={p.id} title={`${p.label} (${p.type})`} className={`port-${p.type}`} style={offset(i, outputs.length)} />)}
+    </>
+  );
+}
+
+// Generic node generated from its definition: parameter controls, preview and one handle per port
+function GraphNode({ id, type, data }: NodeProps<GraphNodeData>) {
+  const def = getNodeDefinition(type)!;
+  return (
+    <div>
+      <NodeContainer id={id} title={def.title}>
+        <ParamList def={def} data={data} />
+        <Preview img={useNodeOutput(id)} />
+        <PortHandles def={def} data={data} />
+      </NodeContainer>
+    </div>
+  );
+}
+
+// Display Node
+function DisplayNode({ id, type, data }: NodeProps<GraphNodeData>) {
+  const def = getNodeDefinition(type)!;
+  const preview = useNodeOutput(id);
+  const { exportOutput, exporting } = React.useContext(ExportContext);
+
+  return (
+    <div>
+      <NodeContainer id={id} title={def.title}>
+        <div className="flex items-center justify-between">
+          <button className="btn btn-primary text-xs" disabled={!preview || exporting} onClick={() => exportOutput(id)}>Download</button>
+        </div>
+        <ParamList def={def} data={data} />
+        <Preview img={preview} className="max-h-64" />
+        <PortHandles def={def} data={data} />
+      </NodeContainer>
+    </div>
+  );
+}
+
+// Group Node: promoted inner parameters, and a panel to choose them
+function GroupNode({ id, type, data }: NodeProps<GraphNodeData>) {
+  const def = getNodeDefinition(type)!;
+  const group = data as unknown as GroupParams & GraphNodeData;
+  const [editing, setEditing] = React.useState(false);
+  const { frame } = React.useContext(TimelineContext);
+  const inner = (group.graph?.nodes ?? []).filter(n => getNodeDefinition(n.type) && !getNodeDefinition(n.type)!.hidden);
+  // inner nodes are replaced rather than mutated, as undo snapshots share them
+  const setInner = (node: string, key: string, changes: Record<string, unknown>) => {
+    group.graph = { ...group.graph, nodes: group.graph.nodes.map(n => (n.id === node ? { ...n, data: { ...n.data, ...changes } } : n)) };
+    data.onChange?.(`${node}.${key}`);
+  };
+  const promoted = (group.params ?? []).flatMap(({ node, key }) => {
+    const n = inner.find(n => n.id === node);
+    const spec = getNodeDefinition(n?.type)?.params.find(p => p.key === key);
+    if (!n || !spec) return [];
+    return [bindParam(`${node}.${key}`, { ...spec, label: `${spec.label} (${n.data.title ?? n.type})` } as ParamSpec, n.data, frame, changes => setInner(node, key, changes))];
+  });
+  const isPromoted = (p: PromotedParam) => (group.params ?? []).some(q => q.node === p.node && q.key === p.key);
+  const togglePromoted = (p: PromotedParam) => {
+    group.params = isPromoted(p) ? group.params.filter(q => !(q.node === p.node && q.key === p.key)) : [...(group.params ?? []), p];
+    data.onChange?.('params');
+  };
+
+  return (
+    <div>
+      <NodeContainer id={id} title={group.title || def.title}>
+        <ParamRows params={promoted} />
+        {editing && (
+          <div className="space-y-2 border-t border-white/10 pt-2">
+            <input className="input w-full" type="text" value={group.title} onChange={(e) => { group.title = e.target.value; data.onChange?.('title'); }} />
+            {inner.map(n => (
+              <div key={n.id}>
+                <div className="label">{String(n.data.title ?? n.type)} #{n.id}</div>
+                {getNodeDefinition(n.type)!.params.map(spec => (
+                  <label key={spec.key} className="flex items-center gap-2 text-xs text-white/80">
+                    <input type="checkbox" checked={isPromoted({ node: n.id, key: spec.key })} onChange={() => togglePromoted({ node: n.id, key: spec.key })} />
+                    {spec.label}
+                  </label>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+        <button className="btn text-xs" onClick={() => setEditing(e => !e)}>{editing ? 'Done' : 'Edit Group…'}</button>
+        <Preview img={useNodeOutput(id)} />
+        <PortHandles def={def} data={data} />
+      </NodeContainer>
+    </div>
+  );
+}
+
+// Node types whose UI goes beyond the generated one
+const nodeComponents = new Map<string, React.ComponentType<NodeProps<GraphNodeData>>>([['display', DisplayNode], ['group', GroupNode]]);
+
+export function registerNodeComponent(type: string, component: React.ComponentType<NodeProps<GraphNodeData>>) {
+  nodeComponents.set(type, component);
+}
+
+// React Flow node types for every registered definition. Call once at module
+// scope: React Flow re-mounts all nodes when this object changes.
+export function buildNodeTypes(): NodeTypes {
+  return Object.fromEntries(listNodeDefinitions().map(def => [def.id, nodeComponents.get(def.id) ?? GraphNode]));
+}
@@ -0,0 +1,288 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Node } from 'reactflow';
+import clsx from 'classnames';
+import { GraphOutputs } from '@/lib/graph';
+import type { Channel } from '@/lib/image';
+import { CHANNELS, Histogram, Rgba, differenceImage, formatRgba, hexColor, histogram, pixelAt } from '@/lib/inspect';
+
+const VIEW_WIDTH = 352;
+const VIEW_HEIGHT = 264;
+const MIN_ZOOM = 1 / 16;
+const MAX_ZOOM = 64;
+
+type CompareMode = 'split' | 'difference';
+type HistogramView = 'rgb' | Channel;
+type View = { zoom: number; x: number; y: number };
+
+const channelColors: Record<Channel, string> = { r: '#f87171', g: '#4ade80', b: '#60a5fa', a: '#cbd5e1', luminance: '#e2e8f0' };
+
+type ImageInspectorProps = {
+  // nodes of the level on screen and their outputs, by the nodes' own ids
+  nodes: Node[];
+  outputs: GraphOutputs;
+  selected?: string;
+  // inspect this node instead of following the selection
+  initialNode?: string;
+  // nodes whose images are on screen, so the editor can compute them at full resolution
+  onTargets?: (ids: string[]) => void;
+  onClose: () => void;
+};
+
+function nodeLabel(n: Node): string {
+  return `${String(n.data.title ?? n.type)} #${n.id}`;
+}
+
+function fitView(img: ImageData | null): View {
+  if (!img) return { zoom: 1, x: 0, y: 0 };
+  const zoom = Math.min(1, VIEW_WIDTH / img.width, VIEW_HEIGHT / img.height);
+  return centered(img, zoom);
+}
+
+function centered(img: ImageData, zoom: number): View {
+  return { zoom, x: (VIEW_WIDTH - img.width * zoom) / 2, y: (VIEW_HEIGHT - img.height * zoom) / 2 };
+}
+
+// Canvas showing an image at its own size, scaled and moved by `view`
+function PixelCanvas({ img, view }: { img: ImageData; view: View }) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = img.width;
+    canvas.height = img.height;
+    canvas.getContext('2d')?.putImageData(img, 0, 0);
+  }, [img]);
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute left-0 top-0 max-w-none"
+      style={{ imageRendering: 'pixelated', transformOrigin: '0 0', transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})` }}
+    />
+  );
+}
+
+// Histogram bars on a square-root scale, so the spikes at pure black and
+// white that generators often produce don't flatten everything else
+function HistogramChart({ data, view }: { data: Histogram; view: HistogramView }) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const { width, height } = ctx.canvas;
+    ctx.clearRect(0, 0, width, height);
+    ctx.globalCompositeOperation = 'lighter';
+    const channels: Channel[] = view === 'rgb' ? ['r', 'g', 'b'] : [view];
+    for (const c of channels) {
+      const bins = data.bins[c];
+      const peak = Math.sqrt(Math.max(...bins)) || 1;
+      ctx.fillStyle = channelColors[c];
+      ctx.globalAlpha = view === 'rgb' ? 0.7 : 0.9;
+      for (let v = 0; v < 256; v++) {
+        const h = (Math.sqrt(bins[v]) / peak) * height;
+        ctx.fillRect(v, height - h, 1, h);
+      }
+    }
+    ctx.globalAlpha = 1;
+    ctx.globalCompositeOperation = 'source-over';
+  }, [data, view]);
+  return <canvas ref={canvasRef} width={256} height={72} className="w-full h-[72px] rounded-md border border-white/10 bg-black/30" />;
+}
+
+function PixelReadout({ label, pixel }: { label: string; pixel: Rgba | null }) {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="w-6 text-[var(--muted)]">{label}</span>
+      {pixel ? (
+        <>
+          <span className="h-3 w-3 rounded-sm border border-white/20" style={{ background: hexColor(pixel), opacity: pixel[3] / 255 }} />
+          <span className="whitespace-pre">{formatRgba(pixel)}</span>
+          <span className="text-[var(--muted)]">{hexColor(pixel)}</span>
+        </>
+      ) : (
+        <span className="text-[var(--muted)]">—</span>
+      )}
+    </div>
+  );
+}
+
+// Zoomable view of one node's output with a pixel readout and histograms,
+// optionally compared against a second node as a split or difference view.
+// Scroll zooms around the pointer, dragging pans.
+export function ImageInspector({ nodes, outputs, selected, initialNode, onTargets, onClose }: ImageInspectorProps) {
+  // '' follows the selection
+  const [source, setSource] = useState(initialNode ?? '');
+  const [compare, setCompare] = useState('');
+  const [mode, setMode] = useState<CompareMode>('split');
+  const [split, setSplit] = useState(0.5);
+  const [gain, setGain] = useState(1);
+  const [histogramView, setHistogramView] = useState<HistogramView>('rgb');
+  const [view, setView] = useState<View>({ zoom: 1, x: 0, y: 0 });
+  const [hover, setHover] = useState<{ x: number; y: number } | null>(null);
+  const viewportRef = useRef<HTMLDivElement | null>(null);
+  const dragRef = useRef<{ x: number; y: number; view: View } | null>(null);
+
+  const inspectable = nodes.filter(n => outputs[n.id]);
+  const aId = source && nodes.some(n => n.id === source) ? source : selected;
+  const a = (aId && outputs[aId]) || null;
+  const b = (compare && compare !== aId && outputs[compare]) || null;
+  const difference = useMemo(() => (a && b && mode === 'difference' ? differenceImage(a, b) : null), [a, b, mode]);
+  const shown = useMemo(() => (difference && gain !== 1 ? differenceImage(a!, b!, gain) : difference), [a, b, difference, gain]);
+  const stats = useMemo(() => {
+    const img = difference ?? a;
+    return img ? histogram(img) : null;
+  }, [difference, a]);
+
+  const targets = [aId, b && compare].filter(Boolean).join(' ');
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  useEffect(() => onTargets?.(targets ? targets.split(' ') : []), [targets]);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  useEffect(() => () => onTargets?.([]), []);
+
+  // a new image size starts from a fitted view
+  const sizeKey = a ? `${a.width}x${a.height}` : '';
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  useEffect(() => setView(fitView(a)), [sizeKey]);
+
+  // wheel listeners added by React are passive and can't stop the page from scrolling
+  useEffect(() => {
+    const el = viewportRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = el.getBoundingClientRect();
+      const mx = e.clientX - rect.left;
+      const my = e.clientY - rect.top;
+      setView(v => {
+        const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, v.zoom * Math.pow(2, -e.deltaY / 240)));
+        const k = zoom / v.zoom;
+        return { zoom, x: mx - (mx - v.x) * k, y: my - (my - v.y) * k };
+      });
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, []);
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY, view };
+  };
+  const onPointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (drag) setView({ ...drag.view, x: drag.view.x + e.clientX - drag.x, y: drag.view.y + e.clientY - drag.y });
+    const rect = e.currentTarget.getBoundingClientRect();
+    setHover({ x: Math.floor((e.clientX - rect.left - view.x) / view.zoom), y: Math.floor((e.clientY - rect.top - view.y) / view.zoom) });
+  };
+
+  const pixelA = a && hover ? pixelAt(a, hover.x, hover.y) : null;
+  const pixelB = b && hover ? pixelAt(b, hover.x, hover.y) : null;
+  const pixelDiff = difference && hover ? pixelAt(difference, hover.x, hover.y) : null;
+  const sizesDiffer = a && b && (a.width !== b.width || a.height !== b.height);
+
+  return (
+    <div className="panel rounded-lg w-[376px] max-h-[calc(100vh-8rem)] overflow-y-auto text-sm nowheel nodrag">
+      <div className="px-3 py-2 flex items-center justify-between border-b border-white/10">
+        <span className="label">Inspector</span>
+        <button className="text-[var(--muted)] hover:text-white" onClick={onClose}>×</button>
+      </div>
+      <div className="p-3 space-y-2">
+        <div className="flex items-center gap-2">
+          <div className="label w-16">Image</div>
+          <select className="input flex-1 min-w-0" value={source} onChange={(e) => setSource(e.target.value)}>
+            <option value="">Selected node</option>
+            {inspectable.map(n => <option key={n.id} value={n.id}>{nodeLabel(n)}</option>)}
+          </select>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="label w-16">Compare</div>
+          <select className="input flex-1 min-w-0" value={compare} onChange={(e) => setCompare(e.target.value)}>
+            <option value="">None</option>
+            {inspectable.filter(n => n.id !== aId).map(n => <option key={n.id} value={n.id}>{nodeLabel(n)}</option>)}
+          </select>
+          {b && (
+            <select className="input" value={mode} onChange={(e) => setMode(e.target.value as CompareMode)}>
+              <option value="split">Split</option>
+              <option value="difference">Difference</option>
+            </select>
+          )}
+        </div>
+        {b && mode === 'split' && (
+          <div className="flex items-center gap-2">
+            <div className="label w-16">Split</div>
+            <input className="flex-1" type="range" min={0} max={1} step={0.01} value={split} onChange={(e) => setSplit(Number(e.target.value))} />
+          </div>
+        )}
+        {b && mode === 'difference' && (
+          <div className="flex items-center gap-2">
+            <div className="label w-16">Gain</div>
+            {[1, 4, 16].map(g => <button key={g} className={clsx('btn text-xs px-2 py-1', gain === g && 'btn-primary')} onClick={() => setGain(g)}>{g}×</button>)}
+          </div>
+        )}
+
+        <div
+          ref={viewportRef}
+          className="relative overflow-hidden rounded-md border border-white/10 bg-black/40 cursor-crosshair select-none"
+          style={{ width: VIEW_WIDTH, height: VIEW_HEIGHT }}
+          onPointerDown={onPointerDown}
+          onPointerMove={onPointerMove}
+          onPointerUp={() => { dragRef.current = null; }}
+          onPointerLeave={() => setHover(null)}
+        >
+          {shown ? <PixelCanvas img={shown} view={view} /> : a && <PixelCanvas img={a} view={view} />}
+          {b && mode === 'split' && (
+            <>
+              <div className="absolute inset-0" style={{ clipPath: `inset(0 0 0 ${split * VIEW_WIDTH}px)` }}>
+                <PixelCanvas img={b} view={view} />
+              </div>
+              <div className="absolute top-0 bottom-0 w-px bg-white/70 pointer-events-none" style={{ left: split * VIEW_WIDTH }} />
+            </>
+          )}
+          {!a && <div className="absolute inset-0 flex items-center justify-center text-xs text-[var(--muted)]">Select a node with an image</div>}
+        </div>
+
+        <div className="flex items-center gap-1">
+          <button className="btn text-xs px-2 py-1" disabled={!a} onClick={() => setView(fitView(a))}>Fit</button>
+          <button className="btn text-xs px-2 py-1" disabled={!a} onClick={() => a && setView(centered(a, 1))}>1:1</button>
+          <span className="ml-auto text-xs text-[var(--muted)]">
+            {a && `${a.width}×${a.height}`}{sizesDiffer && ` vs ${b!.width}×${b!.height}`} · {Math.round(view.zoom * 100)}%
+          </span>
+        </div>
+
+        <div className="rounded-md bg-black/20 px-2 py-1 font-mono text-[11px] space-y-0.5">
+          <div className="text-[var(--muted)]">{hover && (pixelA || pixelB) ? `x ${hover.x}  y ${hover.y}` : 'Hover the image for pixel values'}</div>
+          {a && <PixelReadout label="A" pixel={pixelA} />}
+          {b && <PixelReadout label="B" pixel={pixelB} />}
+          {difference && <PixelReadout label="Δ" pixel={pixelDiff} />}
+        </div>
+
+        {stats && (
+          <div className="space-y-1">
+            <div className="flex items-center gap-1">
+              <div className="label mr-auto">{difference ? 'Difference' : 'Histogram'}</div>
+              {(['rgb', 'luminance', 'a'] as HistogramView[]).map(v => (
+                <button key={v} className={clsx('btn text-[10px] px-1.5 py-0.5 uppercase', histogramView === v && 'btn-primary')} onClick={() => setHistogramView(v)}>{v === 'luminance' ? 'Luma' : v}</button>
+              ))}
+            </div>
+            <HistogramChart data={stats} view={histogramView} />
+            <table className="w-full font-mono text-[11px]">
+              <thead>
+                <tr className="text-[var(--muted)]"><th className="text-left font-normal" /><th className="text-right font-normal">min</th><th className="text-right font-normal">max</th><th className="text-right font-normal">mean</th></tr>
+              </thead>
+              <tbody>
+                {CHANNELS.map(c => (
+                  <tr key={c}>
+                    <td style={{ color: channelColors[c] }}>{c === 'luminance' ? 'L' : c.toUpperCase()}</td>
+                    <td className="text-right">{stats.stats[c].min}</td>
+                    <td className="text-right">{stats.stats[c].max}</td>
+                    <td className="text-right">{stats.stats[c].mean.toFixed(1)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
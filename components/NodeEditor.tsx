@@ -9,350 +9,713 @@ import ReactFlow, {
   useEdgesState,
   useNodesState,
   Connection,
+  EdgeChange,
+  NodeChange,
   Edge,
   Node,
-  Handle,
-  Position,
   MarkerType,
   Panel,
   NodeToolbar,
   ReactFlowInstance,
+  ConnectionLineComponentProps,
+  getBezierPath,
 } from 'reactflow';
 import 'reactflow/dist/style.css';
 import clsx from 'classnames';
-import { blendImages, createSolidImage, generateGradientImage, generatePerlinNoise } from '@/lib/image';
-
-// Types for node data
-export type ImageDataRef = ImageData | null;
-
-type BaseNodeData = {
-  title: string;
-  preview?: ImageDataRef;
-  onChange?: () => void;
-};
-
-type CreateImageData = BaseNodeData & {
-  color: string;
-  size: number;
-};
-
-type GradientNodeData = BaseNodeData & {
-  colorA: string;
-  colorB: string;
-  direction: 'horizontal' | 'vertical';
-  size: number;
-};
-
-type NoiseNodeData = BaseNodeData & {
-  scale: number;
-  seed: number;
-  size: number;
-};
-
-type CombineNodeData = BaseNodeData & {
-  mode: 'add' | 'multiply' | 'overlay' | 'screen' | 'difference';
-  opacity: number;
-};
-
-type DisplayNodeData = BaseNodeData & {};
-
-// Custom Node Components
-function NodeContainer({ title, children }: { title: string; children: React.ReactNode }) {
-  return (
-    <div className="panel rounded-lg min-w-[240px] shadow-soft">
-      <div className="px-3 py-2 border-b border-white/10 flex items-center justify-between">
-        <div className="text-sm font-semibold text-white/90">{title}</div>
-      </div>
-      <div className="p-3 space-y-3">{children}</div>
-    </div>
-  );
-}
+import { GraphOutputs, GraphStatus, toEvalGraph } from '@/lib/graph';
+import { defaultParams, getNodeDefinition, nodeCategories } from '@/lib/nodes';
+import { EvaluationContext, ExportContext, TimelineContext, buildNodeTypes } from '@/components/GraphNode';
+import { AnimationFormat, Timeline } from '@/components/Timeline';
+import { ExportPanel } from '@/components/ExportPanel';
+import { ImageInspector } from '@/components/ImageInspector';
+import { VariationExplorer } from '@/components/VariationExplorer';
+import { NodePalette, PaletteItem } from '@/components/NodePalette';
+import { IMAGE_TYPES, readImageFile } from '@/components/ParamControls';
+import { DanglingConnection, checkConnection, edgesAfterConnect, edgesAfterRemoving, matchingPort } from '@/lib/connections';
+import { DiagnosticsPanel } from '@/components/DiagnosticsPanel';
+import { EvaluationClient, RenderJob } from '@/lib/evaluationClient';
+import { UndoHistory } from '@/lib/history';
+import { GroupLibraryEntry, GroupScope, collapseToGroup, composeScopes, enterScopes, isGroupBoundary, nextNodeId, readGroupLibrary, writeGroupLibrary } from '@/lib/groups';
+import type { GroupParams } from '@/lib/nodes/groups';
+import { DEFAULT_SETTINGS, DocumentSettings, GraphDocument, GraphDocumentError, backupAutosave, parseGraphDocument, readAutosave, serializeGraph, stringifyGraphDocument, writeAutosave } from '@/lib/document';
+import { ExportOutput, RenderTask, downloadBytes, encodeImage, exportImages, exportManifest, exportOutputs, frameFileName, frameTasks, mimeType, outputFileName, outputTasks } from '@/lib/export';
+import { encodeApng, encodePng } from '@/lib/png';
+import { createZip } from '@/lib/zip';
+import { setKeyframe, tracksOf, withTrack } from '@/lib/animation';
+import type { ParamChange } from '@/lib/variations';
+import { copyNodes, pasteNodes, readClipboard } from '@/lib/clipboard';
+import { MAX_LINK_LENGTH, hasEmbeddedImages, hasSharedGraph, readSharedGraph, shareLink } from '@/lib/share';
+import { PROXY_SCALES, proxyLabel, readProxyScale, writeProxyScale } from '@/lib/proxy';
 
-function Preview({ img }: { img: ImageDataRef }) {
-  const canvasRef = useRef<HTMLCanvasElement | null>(null);
-  useEffect(() => {
-    if (!canvasRef.current || !img) return;
-    const ctx = canvasRef.current.getContext('2d');
-    if (!ctx) return;
-    canvasRef.current.width = img.width;
-    canvasRef.current.height = img.height;
-    ctx.putImageData(img, 0, 0);
-  }, [img]);
-  return (
-    <div className="rounded-md overflow-hidden border border-white/10 bg-black/20">
-      <canvas ref={canvasRef} className="w-full h-full max-h-48" />
-    </div>
-  );
-}
+const nodeTypes = buildNodeTypes();
 
-// Create Image Node
-function CreateImageNode({ data }: { data: CreateImageData }) {
-  return (
-    <div>
-      <NodeContainer title="Create Image">
-        <div className="grid grid-cols-2 gap-2 items-center">
-          <div className="label">Color</div>
-          <input className="input" type="color" value={data.color} onChange={(e) => { data.color = e.target.value; data.onChange?.(); }} />
-          <div className="label">Size</div>
-          <input className="input" type="number" min={64} max={1024} step={32} value={data.size} onChange={(e) => { data.size = Number(e.target.value); data.onChange?.(); }} />
-        </div>
-        <Preview img={data.preview ?? null} />
-        <Handle type="source" position={Position.Right} id="out" />
-      </NodeContainer>
-    </div>
-  );
+function defaultNodeData(type: string): Record<string, unknown> {
+  const def = getNodeDefinition(type);
+  return def ? { title: def.title, ...defaultParams(def) } : {};
 }
 
-// Gradient Node
-function GradientNode({ data }: { data: GradientNodeData }) {
-  return (
-    <div>
-      <NodeContainer title="Add Gradient">
-        <div className="grid grid-cols-2 gap-2 items-center">
-          <div className="label">Color A</div>
-          <input className="input" type="color" value={data.colorA} onChange={(e) => { data.colorA = e.target.value; data.onChange?.(); }} />
-          <div className="label">Color B</div>
-          <input className="input" type="color" value={data.colorB} onChange={(e) => { data.colorB = e.target.value; data.onChange?.(); }} />
-          <div className="label">Direction</div>
-          <select className="input" value={data.direction} onChange={(e) => { data.direction = e.target.value as any; data.onChange?.(); }}>
-            <option value="horizontal">Horizontal</option>
-            <option value="vertical">Vertical</option>
-          </select>
-          <div className="label">Size</div>
-          <input className="input" type="number" min={64} max={1024} step={32} value={data.size} onChange={(e) => { data.size = Number(e.target.value); data.onChange?.(); }} />
-        </div>
-        <Preview img={data.preview ?? null} />
-        <Handle type="source" position={Position.Right} id="out" />
-      </NodeContainer>
-    </div>
-  );
+// Connection preview that turns red over an incompatible handle
+function ConnectionLine({ fromX, fromY, toX, toY, fromPosition, toPosition, connectionStatus }: ConnectionLineComponentProps) {
+  const [path] = getBezierPath({ sourceX: fromX, sourceY: fromY, sourcePosition: fromPosition, targetX: toX, targetY: toY, targetPosition: toPosition });
+  return <path d={path} fill="none" strokeWidth={2} stroke={connectionStatus === 'invalid' ? '#f43f5e' : 'var(--accent)'} />;
 }
 
-// Perlin Noise Node
-function NoiseNode({ data }: { data: NoiseNodeData }) {
-  return (
-    <div>
-      <NodeContainer title="Perlin Noise">
-        <div className="grid grid-cols-2 gap-2 items-center">
-          <div className="label">Scale</div>
-          <input className="input" type="number" min={2} max={128} step={1} value={data.scale} onChange={(e) => { data.scale = Number(e.target.value); data.onChange?.(); }} />
-          <div className="label">Seed</div>
-          <input className="input" type="number" min={0} max={9999} step={1} value={data.seed} onChange={(e) => { data.seed = Number(e.target.value); data.onChange?.(); }} />
-          <div className="label">Size</div>
-          <input className="input" type="number" min={64} max={1024} step={32} value={data.size} onChange={(e) => { data.size = Number(e.target.value); data.onChange?.(); }} />
-        </div>
-        <Preview img={data.preview ?? null} />
-        <Handle type="source" position={Position.Right} id="out" />
-      </NodeContainer>
-    </div>
-  );
+function isEditableTarget(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
 }
 
-// Combine Images Node
-function CombineNode({ data }: { data: CombineNodeData }) {
-  return (
-    <div>
-      <NodeContainer title="Combine Images">
-        <div className="grid grid-cols-2 gap-2 items-center">
-          <div className="label">Mode</div>
-          <select className="input" value={data.mode} onChange={(e) => { data.mode = e.target.value as any; data.onChange?.(); }}>
-            <option value="add">Add</option>
-            <option value="multiply">Multiply</option>
-            <option value="overlay">Overlay</option>
-            <option value="screen">Screen</option>
-            <option value="difference">Difference</option>
-          </select>
-          <div className="label">Opacity</div>
-          <input className="input" type="range" min={0} max={1} step={0.05} value={data.opacity} onChange={(e) => { data.opacity = Number(e.target.value); data.onChange?.(); }} />
-        </div>
-        <Preview img={data.preview ?? null} />
-        <Handle type="target" position={Position.Left} id="a" />
-        <Handle type="target" position={Position.Left} id="b" style={{ top: 60 }} />
-        <Handle type="source" position={Position.Right} id="out" />
-      </NodeContainer>
-    </div>
-  );
-}
+// Context Menu
+type CtxTarget = { kind: 'pane' } | { kind: 'node'; nodeId: string } | { kind: 'edge'; edgeId: string };
+
+export function NodeEditor() {
+  const [nodes, setNodes, onNodesChange] = useNodesState([]);
+  const [edges, setEdges, onEdgesChange] = useEdgesState([]);
+  const [rf, setRf] = useState<ReactFlowInstance | null>(null);
+  const idRef = useRef(1);
+
+  const [settings, setSettings] = useState<DocumentSettings>(DEFAULT_SETTINGS);
+
+  // Groups the user has entered, outermost first. The canvas shows the
+  // innermost level; `graphDocument` is always the whole document.
+  const [scopes, setScopes] = useState<GroupScope[]>([]);
+  const scopePath = useMemo(() => scopes.map(s => s.groupId), [scopes]);
+  const graphDocument = useMemo(() => {
+    const level = serializeGraph(nodes, edges, settings);
+    return { ...level, ...composeScopes(scopes, level) };
+  }, [nodes, edges, settings, scopes]);
+
+  const [ctxOpen, setCtxOpen] = useState(false);
+  const [ctxPos, setCtxPos] = useState({ x: 0, y: 0 });
+  const [ctxTarget, setCtxTarget] = useState<CtxTarget>({ kind: 'pane' });
+
+  // Graph evaluation runs in a worker; results stream back per node and
+  // `pending` holds the nodes whose result is still being computed
+  const [outputs, setOutputs] = useState<GraphOutputs>({});
+  const [pending, setPending] = useState<ReadonlySet<string>>(new Set());
+  const [status, setStatus] = useState<GraphStatus>({});
+  const [planned, setPlanned] = useState(0);
+  const clientRef = useRef<EvaluationClient | null>(null);
+
+  // Nodes are computed at the proxy scale; the selected nodes and the ones in
+  // the inspector are computed again at full resolution into `fullOutputs`
+  const [proxy, setProxy] = useState(readProxyScale);
+  const [fullOutputs, setFullOutputs] = useState<GraphOutputs>({});
+  const [inspected, setInspected] = useState<string[]>([]);
+
+  useEffect(() => {
+    const client = new EvaluationClient({
+      onPlan: dirty => { setPending(new Set(dirty)); setPlanned(dirty.length); },
+      onResult: (id, image, nodeStatus) => {
+        setOutputs(o => ({ ...o, [id]: image }));
+        // a full-resolution image is stale once its node recomputes
+        setFullOutputs(f => {
+          if (!(id in f)) return f;
+          const { [id]: _, ...rest } = f;
+          return rest;
+        });
+        setStatus(s => ({ ...s, [id]: nodeStatus }));
+        setPending(p => {
+          if (!p.has(id)) return p;
+          const next = new Set(p);
+          next.delete(id);
+          return next;
+        });
+      },
+      onDone: finalStatus => {
+        setPending(new Set());
+        setStatus(finalStatus);
+        setOutputs(o => Object.fromEntries(Object.keys(finalStatus).map(id => [id, o[id] ?? null])));
+      },
+      onFullResolution: setFullOutputs,
+    });
+    clientRef.current = client;
+    return () => client.dispose();
+  }, []);
+
+  // Animation timeline; the frame isn't part of the document
+  const [frameState, setFrame] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const frame = Math.min(frameState, settings.frames - 1);
+  const timeline = useMemo(() => ({ frame }), [frame]);
+
+  // only parameter and wiring changes reach the worker, not drags; frames
+  // where no animated value changes are cache hits
+  const evalGraph = useMemo(() => toEvalGraph(graphDocument.nodes, graphDocument.edges, settings, frame, proxy), [graphDocument, settings, frame, proxy]);
+  const evalKey = useMemo(() => JSON.stringify(evalGraph), [evalGraph]);
+  // expanded ids; a Group Output node stands for its group
+  const focus = useMemo(() => {
+    const prefix = scopePath.map(id => `${id}/`).join('');
+    const ids = [...nodes.filter(n => n.selected).map(n => n.id), ...inspected];
+    return Array.from(new Set(ids.map(id => (nodes.find(n => n.id === id)?.type === 'groupOutput' ? prefix.slice(0, -1) : prefix + id)))).sort();
+  }, [nodes, inspected, scopePath]);
+  const focusKey = focus.join(' ');
+  useEffect(() => {
+    clientRef.current?.evaluate(evalGraph, focus);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [evalKey, focusKey]);
+
+  const changeProxy = (scale: number) => {
+    setProxy(scale);
+    writeProxyScale(scale);
+  };
 
-// Display Node
-function DisplayNode({ data }: { data: DisplayNodeData }) {
-  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  // Playback advances once the current frame has finished computing and has
+  // been shown for 1/fps seconds, so slow graphs play slower instead of
+  // skipping frames
   useEffect(() => {
-    if (!canvasRef.current || !data.preview) return;
-    const ctx = canvasRef.current.getContext('2d');
-    if (!ctx) return;
-    canvasRef.current.width = data.preview.width;
-    canvasRef.current.height = data.preview.height;
-    ctx.putImageData(data.preview, 0, 0);
-  }, [data.preview]);
-
-  const download = () => {
-    if (!canvasRef.current) return;
+    if (!playing || pending.size) return;
+    const t = setTimeout(() => setFrame((frame + 1) % settings.frames), 1000 / settings.fps);
+    return () => clearTimeout(t);
+  }, [playing, pending, frame, settings.frames, settings.fps]);
+
+  // Results are keyed by expanded id (`group/inner`); inside a group, nodes
+  // read theirs by their own id, and the Group Output node reads the group's
+  const evaluation = useMemo(() => {
+    const images = { ...outputs, ...fullOutputs };
+    if (!scopes.length) return { outputs: images, pending, status };
+    const prefix = scopePath.map(id => `${id}/`).join('');
+    const outputNode = nodes.find(n => n.type === 'groupOutput')?.id;
+    const local = (id: string) => (id === prefix.slice(0, -1) && outputNode ? outputNode : id.startsWith(prefix) ? id.slice(prefix.length) : null);
+    const scoped = <T,>(record: Record<string, T>) => Object.fromEntries(Object.entries(record).flatMap(([id, value]) => (local(id) ? [[local(id)!, value]] : [])));
+    return { outputs: scoped(images), pending: new Set(Array.from(pending).flatMap(id => local(id) ?? [])), status: scoped(status) };
+  }, [outputs, fullOutputs, pending, status, scopes, scopePath, nodes]);
+
+  // Undo/redo. `committedRef` holds the graph as last rendered, which is the
+  // pre-edit state whenever an edit handler runs (parameter edits mutate
+  // `data` in place, so the live nodes can't be used for that)
+  const historyRef = useRef(new UndoHistory<GraphDocument>());
+  const committedRef = useRef<GraphDocument>(serializeGraph([], []));
+  const [historyState, setHistoryState] = useState({ canUndo: false, canRedo: false });
+  const syncHistoryState = useCallback(() => setHistoryState({ canUndo: historyRef.current.canUndo, canRedo: historyRef.current.canRedo }), []);
+  const recordHistory = useCallback((mergeKey?: string) => {
+    historyRef.current.record(committedRef.current, mergeKey);
+    syncHistoryState();
+  }, [syncHistoryState]);
+
+  useEffect(() => {
+    committedRef.current = graphDocument;
+  }, [graphDocument]);
+
+  // Transient message shown at the top of the canvas
+  const [notice, setNotice] = useState<string | null>(null);
+  useEffect(() => {
+    if (!notice) return;
+    const t = setTimeout(() => setNotice(null), 3000);
+    return () => clearTimeout(t);
+  }, [notice]);
+
+  // Connections are type-checked and cycle-checked; the reason for the last
+  // rejected hover is reported if the drag ends without connecting
+  const rejectReasonRef = useRef<string | null>(null);
+  // handle the current connection drag started from, until it connects
+  const connectStartRef = useRef<DanglingConnection | null>(null);
+  const isValidConnection = useCallback((connection: Connection) => {
+    const check = checkConnection(connection, nodes, edges);
+    rejectReasonRef.current = check.ok ? null : check.reason;
+    return check.ok;
+  }, [nodes, edges]);
+
+  const onConnect = useCallback((connection: Connection) => {
+    connectStartRef.current = null;
+    const check = checkConnection(connection, nodes, edges);
+    if (!check.ok) {
+      setNotice(check.reason);
+      return;
+    }
+    recordHistory();
+    setEdges(eds => addEdge({ ...connection, markerEnd: { type: MarkerType.ArrowClosed } }, edgesAfterConnect(connection, eds)));
+  }, [nodes, edges, setEdges, recordHistory]);
+
+  const handleNodesChange = useCallback((changes: NodeChange[]) => {
+    if (changes.some(c => c.type === 'remove')) {
+      recordHistory();
+    } else {
+      const moved = changes.flatMap(c => c.type === 'position' && c.dragging ? [c.id] : []);
+      if (moved.length) recordHistory(`move:${moved.join(',')}`);
+    }
+    onNodesChange(changes);
+  }, [onNodesChange, recordHistory]);
+
+  const handleEdgesChange = useCallback((changes: EdgeChange[]) => {
+    if (changes.some(c => c.type === 'remove')) recordHistory();
+    onEdgesChange(changes);
+  }, [onEdgesChange, recordHistory]);
+
+  const touchNodes = useCallback(() => setNodes(n => [...n]), [setNodes]);
+
+  const makeNodeData = useCallback((id: string, type: string, data?: Record<string, unknown>) => ({
+    ...defaultNodeData(type),
+    ...data,
+    onChange: (key?: string) => {
+      recordHistory(key ? `param:${id}:${key}` : undefined);
+      touchNodes();
+    },
+  }), [recordHistory, touchNodes]);
+
+  // Replace the whole graph with a loaded document and show the level at
+  // `path` (group ids from the root); parameters missing from older documents
+  // fall back to the node type defaults
+  const loadDocument = useCallback((doc: GraphDocument, path: string[] = []) => {
+    const unknown = doc.nodes.filter(n => !getNodeDefinition(n.type)).map(n => n.type);
+    if (unknown.length) throw new GraphDocumentError(`Unknown node type(s): ${Array.from(new Set(unknown)).join(', ')}`);
+    const { scopes, graph } = enterScopes(doc, path);
+    setNodes(graph.nodes.map(n => ({
+      id: n.id,
+      type: n.type,
+      position: n.position,
+      data: makeNodeData(n.id, n.type as string, n.data),
+      // a group's input and output nodes define its ports
+      deletable: !isGroupBoundary(n.type),
+    })));
+    setEdges(graph.edges.map(e => ({ ...e, markerEnd: { type: MarkerType.ArrowClosed } })));
+    setScopes(scopes);
+    setSettings(doc.settings);
+    idRef.current = nextNodeId(doc.nodes);
+  }, [setNodes, setEdges, makeNodeData]);
+
+  const undo = useCallback(() => {
+    const prev = historyRef.current.undo(committedRef.current);
+    if (prev) {
+      loadDocument(prev, scopePath);
+      committedRef.current = prev;
+    }
+    syncHistoryState();
+  }, [loadDocument, syncHistoryState, scopePath]);
+
+  const redo = useCallback(() => {
+    const next = historyRef.current.redo(committedRef.current);
+    if (next) {
+      loadDocument(next, scopePath);
+      committedRef.current = next;
+    }
+    syncHistoryState();
+  }, [loadDocument, syncHistoryState, scopePath]);
+
+  const clearGraph = () => {
+    recordHistory();
+    // inside a group, its input and output nodes stay
+    setNodes(nds => nds.filter(n => n.deletable === false));
+    setEdges([]);
+  };
+
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const saveFile = () => {
+    const blob = new Blob([stringifyGraphDocument(graphDocument)], { type: 'application/json' });
     const a = document.createElement('a');
-    a.href = canvasRef.current.toDataURL('image/png');
-    a.download = 'image.png';
+    a.href = URL.createObjectURL(blob);
+    a.download = 'graph.json';
     a.click();
+    URL.revokeObjectURL(a.href);
   };
 
-  return (
-    <div>
-      <NodeContainer title="Display Image">
-        <div className="flex items-center justify-between">
-          <button className="btn btn-primary text-xs" onClick={download}>Download</button>
-        </div>
-        <div className="rounded-md overflow-hidden border border-white/10 bg-black/20">
-          <canvas ref={canvasRef} className="w-full h-full max-h-64" />
-        </div>
-        <Handle type="target" position={Position.Left} id="in" />
-      </NodeContainer>
-    </div>
-  );
-}
+  const openFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const doc = parseGraphDocument(await file.text());
+      recordHistory();
+      loadDocument(doc);
+      requestAnimationFrame(() => rf?.fitView({ padding: 0.2 }));
+    } catch (err) {
+      window.alert(err instanceof GraphDocumentError ? `Could not open ${file.name}: ${err.message}` : `Could not open ${file.name}`);
+    }
+  };
 
-const nodeTypes = {
-  createImage: CreateImageNode,
-  gradient: GradientNode,
-  perlin: NoiseNode,
-  combine: CombineNode,
-  display: DisplayNode,
-};
-
-type NodeKind = keyof typeof nodeTypes;
-
-// Graph evaluation
-function colorHexToRgb(hex: string) {
-  const h = hex.replace('#', '');
-  const bigint = parseInt(h.length === 3 ? h.split('').map(c => c + c).join('') : h, 16);
-  const r = (bigint >> 16) & 255;
-  const g = (bigint >> 8) & 255;
-  const b = bigint & 255;
-  return { r, g, b };
-}
+  // Autosave (debounced)
+  const restoredRef = useRef(false);
+  useEffect(() => {
+    if (!restoredRef.current) return;
+    const t = setTimeout(() => writeAutosave(graphDocument), 500);
+    return () => clearTimeout(t);
+  }, [graphDocument]);
 
-function evaluateGraph(nodes: Node[], edges: Edge[]): Record<string, ImageData | null> {
-  const byId: Record<string, Node> = Object.fromEntries(nodes.map(n => [n.id, n]));
-  const incoming: Record<string, Edge[]> = {};
-  edges.forEach(e => { (incoming[e.target] ||= []).push(e); });
+  // Shared links. The link's graph replaces the current one and the hash is
+  // dropped again, so later edits autosave as usual and a reload doesn't
+  // bring the shared version back.
+  const [linkCopied, setLinkCopied] = useState(false);
+  useEffect(() => {
+    if (!linkCopied) return;
+    const t = setTimeout(() => setLinkCopied(false), 2000);
+    return () => clearTimeout(t);
+  }, [linkCopied]);
 
-  const outputs: Record<string, ImageData | null> = {};
-  const visited = new Set<string>();
-  let progress = true;
+  const copyLink = async () => {
+    const link = shareLink(graphDocument, window.location);
+    if (link.length > MAX_LINK_LENGTH) {
+      const size = `${Math.round(link.length / 1024)} KB`;
+      setNotice(hasEmbeddedImages(graphDocument.nodes)
+        ? `Embedded images make the graph too large for a link (${size}); save it as a file instead`
+        : `The graph is too large for a link (${size}); save it as a file instead`);
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(link);
+      setLinkCopied(true);
+    } catch (err) {
+      window.prompt('Copy this link', link);
+    }
+  };
 
-  const getOutput = (nodeId: string): ImageData | null => outputs[nodeId] ?? null;
+  const openSharedLink = async () => {
+    const hash = window.location.hash;
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    try {
+      const doc = await readSharedGraph(hash);
+      recordHistory();
+      loadDocument(doc);
+      requestAnimationFrame(() => rf?.fitView({ padding: 0.2 }));
+      return true;
+    } catch (err) {
+      setNotice(err instanceof GraphDocumentError ? `Could not open the shared link: ${err.message}` : 'Could not open the shared link');
+      return false;
+    }
+  };
 
-  while (progress) {
-    progress = false;
-    for (const node of nodes) {
-      if (visited.has(node.id)) continue;
-      const inc = incoming[node.id] || [];
-      const ready = inc.every(e => outputs[e.source] !== undefined);
-      if (!ready) continue;
+  useEffect(() => {
+    const handler = () => {
+      if (hasSharedGraph(window.location.hash)) openSharedLink();
+    };
+    window.addEventListener('hashchange', handler);
+    return () => window.removeEventListener('hashchange', handler);
+  });
 
-      let out: ImageData | null = null;
-      try {
-        switch (node.type as NodeKind) {
-          case 'createImage': {
-            const d = node.data as CreateImageData;
-            const { r, g, b } = colorHexToRgb(d.color);
-            out = createSolidImage(d.size, d.size, r, g, b, 255);
-            break;
-          }
-          case 'gradient': {
-            const d = node.data as GradientNodeData;
-            const a = colorHexToRgb(d.colorA);
-            const b = colorHexToRgb(d.colorB);
-            out = generateGradientImage(d.size, d.size, a, b, d.direction);
-            break;
-          }
-          case 'perlin': {
-            const d = node.data as NoiseNodeData;
-            out = generatePerlinNoise(d.size, d.size, d.scale, d.seed);
-            break;
-          }
-          case 'combine': {
-            const d = node.data as CombineNodeData;
-            const incA = inc.find(e => e.targetHandle === 'a');
-            const incB = inc.find(e => e.targetHandle === 'b');
-            const imgA = incA ? getOutput(incA.source) : null;
-            const imgB = incB ? getOutput(incB.source) : null;
-            out = blendImages(imgA, imgB, d.mode, d.opacity);
-            break;
-          }
-          case 'display': {
-            const incIn = inc.find(e => e.targetHandle === 'in');
-            out = incIn ? getOutput(incIn.source) : null;
-            break;
-          }
-          default:
-            out = null;
-        }
-      } catch (e) {
-        out = null;
-      }
+  const changeSetting = (key: keyof DocumentSettings, value: number, max = 4096) => {
+    if (!(value >= 1)) return;
+    recordHistory(`settings:${key}`);
+    setSettings(s => ({ ...s, [key]: Math.min(max, Math.round(value)) }));
+  };
+
+  // Exports render display nodes at their export settings in the evaluation
+  // worker, at full resolution and apart from the live previews; one export
+  // runs at a time and can be cancelled
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const exportJob = useRef<RenderJob | null>(null);
+  const exportTargets = useMemo(() => exportOutputs(evalGraph), [evalGraph]);
+
+  // the image of `outputs[i]` for every `tasks[i]`, or null when cancelled
+  const renderExport = async (outputs: ExportOutput[], tasks: RenderTask[]) => {
+    const client = clientRef.current;
+    if (!client) return null;
+    let done = 0;
+    const job = client.render(graphDocument, tasks, () => setExportProgress(++done / tasks.length));
+    exportJob.current = job;
+    const results = await job.images;
+    return results && exportImages(results, outputs);
+  };
 
-      outputs[node.id] = out;
-      visited.add(node.id);
-      progress = true;
+  const runExport = async (work: () => Promise<void>) => {
+    if (exportProgress !== null) return;
+    setExportProgress(0);
+    try {
+      await work();
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : String(err));
+    } finally {
+      exportJob.current = null;
+      setExportProgress(null);
     }
-  }
+  };
 
-  return outputs;
-}
+  const cancelExport = () => exportJob.current?.cancel();
 
-// Context Menu
-type CtxTarget = { kind: 'pane' } | { kind: 'node'; nodeId: string } | { kind: 'edge'; edgeId: string };
+  const exportOne = (output: ExportOutput) => runExport(async () => {
+    const images = await renderExport([output], outputTasks([output], frame));
+    if (images) downloadBytes(await encodeImage(images[0], output.format, output.quality), outputFileName(output), mimeType(output.format));
+  });
 
-export function NodeEditor() {
-  const [nodes, setNodes, onNodesChange] = useNodesState([]);
-  const [edges, setEdges, onEdgesChange] = useEdgesState([]);
-  const [rf, setRf] = useState<ReactFlowInstance | null>(null);
-  const idRef = useRef(1);
+  const exportAll = () => runExport(async () => {
+    const images = await renderExport(exportTargets, outputTasks(exportTargets, frame));
+    if (!images) return;
+    const entries = await Promise.all(exportTargets.map(async (o, i) => ({ name: outputFileName(o), data: await encodeImage(images[i], o.format, o.quality) })));
+    const manifest = JSON.stringify(exportManifest(graphDocument, frame, exportTargets, images), null, 2);
+    downloadBytes(createZip([...entries, { name: 'manifest.json', data: new TextEncoder().encode(manifest) }]), 'export.zip', 'application/zip');
+  });
 
-  const [ctxOpen, setCtxOpen] = useState(false);
-  const [ctxPos, setCtxPos] = useState({ x: 0, y: 0 });
-  const [ctxTarget, setCtxTarget] = useState<CtxTarget>({ kind: 'pane' });
+  // display nodes inside a group are addressed by their expanded id
+  const exportState = {
+    exportOutput: (id: string) => {
+      const output = exportTargets.find(o => o.id === [...scopePath, id].join('/'));
+      if (output) exportOne(output);
+    },
+    exporting: exportProgress !== null,
+  };
 
-  const outputs = useMemo(() => evaluateGraph(nodes, edges), [nodes, edges]);
+  const exportAnimation = (id: string, format: AnimationFormat) => runExport(async () => {
+    const output = exportTargets.find(o => o.id === id);
+    if (!output) return;
+    setPlaying(false);
+    const frames = await renderExport(new Array(settings.frames).fill(output), frameTasks(output, settings.frames));
+    if (!frames) return;
+    if (format === 'apng') {
+      downloadBytes(encodeApng(frames, settings.fps), `${output.fileName}.png`, 'image/png');
+    } else {
+      const entries = frames.map((f, i) => ({ name: frameFileName(output.fileName, i, frames.length, 'png'), data: encodePng(f) }));
+      downloadBytes(createZip(entries), `${output.fileName}_frames.zip`, 'application/zip');
+    }
+  });
 
-  // inject previews back to node data
-  useEffect(() => {
-    setNodes(nds => nds.map(n => ({ ...n, data: { ...n.data, preview: outputs[n.id] || null } })));
-  }, [outputs, setNodes]);
+  // Variation explorer; `node` preselects the node whose parameters to sweep
+  const [explorer, setExplorer] = useState<{ node?: string } | null>(null);
 
-  const onConnect = useCallback((connection: Connection) => setEdges(eds => addEdge({ ...connection, markerEnd: { type: MarkerType.ArrowClosed } }, eds)), [setEdges]);
+  // Image inspector; `node` is inspected instead of the selection
+  const [inspector, setInspector] = useState<{ node?: string } | null>(null);
+
+  // Parameter values picked in the explorer. Animated parameters get a
+  // keyframe at the current frame instead.
+  const applyChanges = (changes: ParamChange[]) => {
+    recordHistory();
+    setNodes(nds => nds.map(n => {
+      const mine = changes.filter(c => c.node === n.id);
+      if (!mine.length) return n;
+      const data = { ...n.data };
+      for (const { key, value } of mine) {
+        const track = tracksOf(data)[key];
+        if (track) data.keyframes = withTrack(tracksOf(data), key, setKeyframe(track, frame, value as number | string));
+        else data[key] = value;
+      }
+      return { ...n, data };
+    }));
+  };
 
-  const addNode = (type: NodeKind, position?: { x: number; y: number }) => {
+  const addNode = (type: string, position?: { x: number; y: number }, data?: Record<string, unknown>) => {
     const id = String(idRef.current++);
-    const base = { onChange: () => setNodes(n => [...n]) };
-    const dataByType: Record<NodeKind, any> = {
-      createImage: { title: 'Create Image', color: '#4f46e5', size: 256, ...base },
-      gradient: { title: 'Add Gradient', colorA: '#7aa2f7', colorB: '#a78bfa', direction: 'horizontal', size: 256, ...base },
-      perlin: { title: 'Perlin Noise', scale: 16, seed: Math.floor(Math.random()*9999), size: 256, ...base },
-      combine: { title: 'Combine Images', mode: 'add', opacity: 1, ...base },
-      display: { title: 'Display Image', ...base },
-    };
     const pos = position ?? rf?.project({ x: 200, y: 200 }) ?? { x: 200, y: 200 };
     const node: Node = {
       id,
       type,
       position: pos,
-      data: dataByType[type],
+      data: makeNodeData(id, type, data),
     } as Node;
+    recordHistory();
     setNodes(nds => nds.concat(node));
     return id;
   };
 
-  // Keyboard delete
+  // Groups
+  const enterGroup = (path: string[]) => {
+    loadDocument(graphDocument, path);
+    requestAnimationFrame(() => rf?.fitView({ padding: 0.2 }));
+  };
+
+  const groupSelection = (ids: string[]) => {
+    if (!ids.length) return;
+    const level = serializeGraph(nodes, edges);
+    const grouped = collapseToGroup(level.nodes, level.edges, new Set(ids), String(idRef.current++));
+    recordHistory();
+    loadDocument({ ...graphDocument, ...composeScopes(scopes, grouped) }, scopePath);
+  };
+
+  const [library, setLibrary] = useState<GroupLibraryEntry[]>([]);
+  useEffect(() => setLibrary(readGroupLibrary()), []);
+
+  const saveToLibrary = (nodeId: string) => {
+    const node = nodes.find(n => n.id === nodeId);
+    if (!node) return;
+    const group = serializeGraph([node], []).nodes[0].data as GroupParams;
+    const name = window.prompt('Save group to library as', group.title)?.trim();
+    if (!name) return;
+    const next = [...library.filter(e => e.name !== name), { name, group: { ...group, title: name } }];
+    writeGroupLibrary(next);
+    setLibrary(next);
+  };
+
+  const removeFromLibrary = (name: string) => {
+    const next = library.filter(e => e.name !== name);
+    writeGroupLibrary(next);
+    setLibrary(next);
+  };
+
+  // each use gets its own copy, so instances can be edited independently
+  const addLibraryGroup = (name: string, position?: { x: number; y: number }) => {
+    const entry = library.find(e => e.name === name);
+    if (entry) addNode('group', position, JSON.parse(JSON.stringify(entry.group)));
+  };
+
+  // Copy/paste. The clipboard carries plain graph JSON (see lib/clipboard.ts);
+  // pasted nodes land at the pointer, selected, with fresh ids.
+  const pointerRef = useRef<{ x: number; y: number } | null>(null);
+  const pointerPosition = () => {
+    const { x, y } = pointerRef.current ?? { x: window.innerWidth / 2, y: window.innerHeight / 2 };
+    return rf?.screenToFlowPosition({ x, y }) ?? { x: 0, y: 0 };
+  };
+
+  const insertNodes = (doc: GraphDocument, position: { x: number; y: number }) => {
+    const pasted = pasteNodes(doc, idRef.current, position);
+    idRef.current += pasted.nodes.length;
+    recordHistory();
+    setNodes(nds => nds.map(n => ({ ...n, selected: false })).concat(pasted.nodes.map(n => ({
+      id: n.id,
+      type: n.type,
+      position: n.position,
+      data: makeNodeData(n.id, n.type, n.data),
+      selected: true,
+    }))));
+    setEdges(eds => [...eds.map(e => ({ ...e, selected: false })), ...pasted.edges.map(e => ({ ...e, markerEnd: { type: MarkerType.ArrowClosed } }))]);
+  };
+
+  const selectedIds = () => new Set(nodes.filter(n => n.selected).map(n => n.id));
+
+  const duplicate = (ids: ReadonlySet<string>) => {
+    const text = copyNodes(nodes, edges, ids, settings);
+    const doc = text && readClipboard(text);
+    if (!doc) return;
+    const left = Math.min(...doc.nodes.map(n => n.position.x));
+    const top = Math.min(...doc.nodes.map(n => n.position.y));
+    insertNodes(doc, { x: left + 40, y: top + 40 });
+  };
+
+  useEffect(() => {
+    const handler = (e: ClipboardEvent) => {
+      if (isEditableTarget(e.target) || window.getSelection()?.toString()) return;
+      const text = copyNodes(nodes, edges, selectedIds(), settings);
+      if (!text) return;
+      e.preventDefault();
+      e.clipboardData?.setData('text/plain', text);
+    };
+    window.addEventListener('copy', handler);
+    return () => window.removeEventListener('copy', handler);
+  });
+
+  // Quick-add palette, opened with Space/Tab at the pointer or by dropping a
+  // connection on empty canvas. In the latter case it only offers nodes that
+  // fit the dragged handle and wires the new node up.
+  const [palette, setPalette] = useState<{ position: { x: number; y: number }; from?: DanglingConnection } | null>(null);
+
+  const paletteItems = useMemo<PaletteItem[]>(() => [
+    ...nodeCategories().flatMap(({ category, definitions }) => definitions.map(def => ({ key: def.id, label: def.title, detail: category, type: def.id }))),
+    ...library.map(entry => ({ key: `library:${entry.name}`, label: entry.name, detail: 'Library', type: 'group', data: entry.group })),
+  ], [library]);
+
+  const candidate = (item: PaletteItem) => ({ id: '', type: item.type, data: item.data ?? defaultNodeData(item.type) });
+  const from = palette?.from;
+  const visibleItems = from ? paletteItems.filter(item => matchingPort(from, nodes, candidate(item))) : paletteItems;
+
+  const pickFromPalette = (item: PaletteItem) => {
+    if (!palette) return;
+    setPalette(null);
+    const at = rf?.screenToFlowPosition(palette.position) ?? { x: 0, y: 0 };
+    // a node feeding the dragged input goes to its left
+    const position = from?.handleType === 'target' ? { x: at.x - 280, y: at.y - 40 } : { x: at.x, y: at.y - 40 };
+    const data = item.data && JSON.parse(JSON.stringify(item.data));
+    const id = addNode(item.type, position, data);
+    const port = from && matchingPort(from, nodes, candidate(item));
+    if (!from || !port) return;
+    const connection = from.handleType === 'source'
+      ? { source: from.nodeId, sourceHandle: from.handleId, target: id, targetHandle: port.id }
+      : { source: id, sourceHandle: port.id, target: from.nodeId, targetHandle: from.handleId };
+    setEdges(eds => addEdge({ ...connection, markerEnd: { type: MarkerType.ArrowClosed } }, edgesAfterConnect(connection, eds)));
+  };
+
+  const onConnectEnd = (e: MouseEvent | TouchEvent) => {
+    const start = connectStartRef.current;
+    connectStartRef.current = null;
+    if (start && (e.target as Element | null)?.classList?.contains('react-flow__pane')) {
+      const { clientX, clientY } = 'changedTouches' in e ? e.changedTouches[0] : e;
+      setPalette({ position: { x: clientX, y: clientY }, from: start });
+      return;
+    }
+    if (rejectReasonRef.current) setNotice(rejectReasonRef.current);
+  };
+
+  // Image files dropped on the canvas or pasted become Image nodes
+  const importImages = async (files: File[], position: { x: number; y: number }) => {
+    for (const [i, file] of files.entries()) {
+      try {
+        const image = await readImageFile(file);
+        addNode('imageImport', { x: position.x + i * 40, y: position.y + i * 40 }, { image });
+      } catch (err) {
+        setNotice(err instanceof Error ? err.message : String(err));
+      }
+    }
+  };
+
+  const onDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  };
+
+  const onDrop = (e: React.DragEvent) => {
+    const files = Array.from(e.dataTransfer.files);
+    if (!files.length) return;
+    e.preventDefault();
+    importImages(files, rf?.screenToFlowPosition({ x: e.clientX, y: e.clientY }) ?? { x: 0, y: 0 });
+  };
+
+  useEffect(() => {
+    const handler = (e: ClipboardEvent) => {
+      if (isEditableTarget(e.target)) return;
+      const files = Array.from(e.clipboardData?.files ?? []).filter(f => IMAGE_TYPES.includes(f.type));
+      if (files.length) {
+        e.preventDefault();
+        importImages(files, pointerPosition());
+        return;
+      }
+      try {
+        const doc = readClipboard(e.clipboardData?.getData('text/plain') ?? '');
+        if (!doc?.nodes.length) return;
+        e.preventDefault();
+        insertNodes(doc, pointerPosition());
+      } catch (err) {
+        setNotice(err instanceof Error ? err.message : String(err));
+      }
+    };
+    window.addEventListener('paste', handler);
+    return () => window.removeEventListener('paste', handler);
+  });
+
+  // Keyboard delete and undo/redo
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
+      if (isEditableTarget(e.target)) return;
+      const mod = e.ctrlKey || e.metaKey;
+      if (mod && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo(); else undo();
+        return;
+      }
+      if (mod && e.key.toLowerCase() === 'y') {
+        e.preventDefault();
+        redo();
+        return;
+      }
+      if (mod && e.key.toLowerCase() === 'd') {
+        e.preventDefault();
+        duplicate(selectedIds());
+        return;
+      }
+      if ((e.key === ' ' || e.key === 'Tab') && !mod && !e.altKey && !explorer) {
+        e.preventDefault();
+        setPalette({ position: pointerRef.current ?? { x: window.innerWidth / 2, y: window.innerHeight / 2 } });
+        return;
+      }
+      if (mod && e.key.toLowerCase() === 'g') {
+        e.preventDefault();
+        groupSelection(nodes.filter(n => n.selected).map(n => n.id));
+        return;
+      }
+      if (e.key === 'Escape' && explorer) {
+        setExplorer(null);
+        return;
+      }
+      if (e.key === 'Escape' && scopes.length) {
+        enterGroup(scopePath.slice(0, -1));
+        return;
+      }
       if (e.key === 'Delete' || e.key === 'Backspace') {
-        setNodes(nds => nds.filter(n => !n.selected));
-        setEdges(eds => eds.filter(e => !e.selected));
+        if (!nodes.some(n => n.selected) && !edges.some(ed => ed.selected)) return;
+        recordHistory();
+        const removed = new Set(nodes.filter(n => n.selected && n.deletable !== false).map(n => n.id));
+        setNodes(nds => nds.filter(n => !removed.has(n.id)));
+        setEdges(eds => edgesAfterRemoving(removed, eds.filter(e => !e.selected)));
       }
     };
     window.addEventListener('keydown', handler);
     return () => window.removeEventListener('keydown', handler);
-  }, [setNodes, setEdges]);
+  });
 
   // Context menu handlers
   const openPaneMenu = (e: React.MouseEvent) => {
@@ -376,17 +739,52 @@ export function NodeEditor() {
 
   const closeMenu = () => setCtxOpen(false);
 
+  // Select a node and center the view on it
+  const focusNode = (nodeId: string) => {
+    const node = nodes.find(n => n.id === nodeId);
+    if (!node) return;
+    setNodes(nds => nds.map(n => ({ ...n, selected: n.id === nodeId })));
+    rf?.setCenter(node.position.x + (node.width ?? 240) / 2, node.position.y + (node.height ?? 200) / 2, { zoom: Math.max(rf.getZoom(), 1), duration: 300 });
+  };
+
+  const ctxNode = ctxTarget.kind === 'node' ? nodes.find(n => n.id === ctxTarget.nodeId) : undefined;
+
   const handleCtxAction = (action: string) => {
     if (action.startsWith('add:')) {
-      const type = action.split(':')[1] as NodeKind;
+      const type = action.slice('add:'.length);
       const panePos = rf?.screenToFlowPosition(ctxPos) ?? { x: 0, y: 0 };
       addNode(type, panePos);
     }
-    if (action === 'delete-node' && ctxTarget.kind === 'node') {
+    if (action.startsWith('library:')) {
+      addLibraryGroup(action.slice('library:'.length), rf?.screenToFlowPosition(ctxPos));
+    }
+    if (action === 'group' && ctxTarget.kind === 'node') {
+      const selected = nodes.filter(n => n.selected).map(n => n.id);
+      groupSelection(selected.includes(ctxTarget.nodeId) ? selected : [ctxTarget.nodeId]);
+    }
+    if (action === 'enter-group' && ctxTarget.kind === 'node') {
+      enterGroup([...scopePath, ctxTarget.nodeId]);
+    }
+    if (action === 'duplicate' && ctxTarget.kind === 'node') {
+      const selected = selectedIds();
+      duplicate(selected.has(ctxTarget.nodeId) ? selected : new Set([ctxTarget.nodeId]));
+    }
+    if (action === 'variations' && ctxTarget.kind === 'node') {
+      setExplorer({ node: ctxTarget.nodeId });
+    }
+    if (action === 'inspect' && ctxTarget.kind === 'node') {
+      setInspector({ node: ctxTarget.nodeId });
+    }
+    if (action === 'save-group' && ctxTarget.kind === 'node') {
+      saveToLibrary(ctxTarget.nodeId);
+    }
+    if (action === 'delete-node' && ctxTarget.kind === 'node' && ctxNode?.deletable !== false) {
+      recordHistory();
       setNodes(nds => nds.filter(n => n.id !== ctxTarget.nodeId));
-      setEdges(eds => eds.filter(e => e.source !== ctxTarget.nodeId && e.target !== ctxTarget.nodeId));
+      setEdges(eds => edgesAfterRemoving(new Set([ctxTarget.nodeId]), eds));
     }
     if (action === 'delete-edge' && ctxTarget.kind === 'edge') {
+      recordHistory();
       setEdges(eds => eds.filter(e => e.id !== ctxTarget.edgeId));
     }
     if (action === 'fit-view') {
@@ -395,81 +793,251 @@ export function NodeEditor() {
     setCtxOpen(false);
   };
 
-  // Initial demo graph
+  // Open a shared link, restore the autosaved graph, or fall back to the demo
+  // graph. Autosave only starts once this is done, so a slow link can't
+  // overwrite the previous session with an empty graph.
+  const startedRef = useRef(false);
   useEffect(() => {
-    if (nodes.length > 0) return;
-    const a = addNode('gradient', { x: 0, y: 0 });
-    const b = addNode('perlin', { x: 0, y: 220 });
-    const c = addNode('combine', { x: 320, y: 100 });
-    const d = addNode('display', { x: 640, y: 80 });
-    setEdges([ { id: 'e1', source: a, target: c, targetHandle: 'a', markerEnd: { type: MarkerType.ArrowClosed } }, { id: 'e2', source: b, target: c, targetHandle: 'b', markerEnd: { type: MarkerType.ArrowClosed } }, { id: 'e3', source: c, target: d, targetHandle: 'in', markerEnd: { type: MarkerType.ArrowClosed } } ] as Edge[]);
+    if (startedRef.current) return;
+    startedRef.current = true;
+    const restore = () => {
+      restoredRef.current = true;
+      try {
+        const saved = readAutosave();
+        if (saved) {
+          loadDocument(saved);
+          return;
+        }
+      } catch (e) {
+        // an autosave that doesn't open is kept aside rather than overwritten
+        // by the demo graph; without a copy, autosave stays off
+        const reason = e instanceof Error ? e.message : String(e);
+        restoredRef.current = backupAutosave();
+        setNotice(restoredRef.current
+          ? `The autosaved graph could not be restored (${reason}); a copy was kept in browser storage`
+          : `The autosaved graph could not be restored (${reason}); autosave is off so it isn't overwritten`);
+      }
+      const a = addNode('gradient', { x: 0, y: 0 });
+      const b = addNode('perlin', { x: 0, y: 220 });
+      const c = addNode('combine', { x: 320, y: 100 });
+      const d = addNode('display', { x: 640, y: 80 });
+      historyRef.current.clear();
+      setEdges([ { id: 'e1', source: a, target: c, targetHandle: 'a', markerEnd: { type: MarkerType.ArrowClosed } }, { id: 'e2', source: b, target: c, targetHandle: 'b', markerEnd: { type: MarkerType.ArrowClosed } }, { id: 'e3', source: c, target: d, targetHandle: 'in', markerEnd: { type: MarkerType.ArrowClosed } } ] as Edge[]);
+    };
+    if (!hasSharedGraph(window.location.hash)) return restore();
+    openSharedLink().then(opened => {
+      if (!opened) return restore();
+      historyRef.current.clear();
+      syncHistoryState();
+      restoredRef.current = true;
+    });
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
   return (
-    <div className="h-full w-full">
-      <ReactFlow
-        nodes={nodes}
-        edges={edges}
-        onNodesChange={onNodesChange}
-        onEdgesChange={onEdgesChange}
-        onConnect={onConnect}
-        nodeTypes={nodeTypes}
-        onInit={setRf}
-        panOnScroll
-        panOnDrag
-        zoomOnScroll
-        fitView
-        onPaneContextMenu={openPaneMenu}
-        onNodeContextMenu={(e, n) => openNodeMenu(e, n.id)}
-        onEdgeContextMenu={(e, ed) => openEdgeMenu(e, ed.id)}
-      >
-        <Background color="#30405f" gap={18} size={1} />
-        <MiniMap zoomable pannable nodeStrokeColor={n => '#7aa2f7'} nodeColor="#1f2a44" maskColor="rgba(5,8,16,0.6)" />
-        <Controls position="bottom-right" />
-
-        <Panel position="top-left">
-          <div className="panel rounded-lg p-2 flex items-center gap-2">
-            <button className="btn" onClick={() => addNode('createImage')}>Create Image</button>
-            <button className="btn" onClick={() => addNode('gradient')}>Add Gradient</button>
-            <button className="btn" onClick={() => addNode('perlin')}>Perlin Noise</button>
-            <button className="btn" onClick={() => addNode('combine')}>Combine</button>
-            <button className="btn" onClick={() => addNode('display')}>Display</button>
-            <div className="mx-2 h-6 w-px bg-white/10" />
-            <button className="btn" onClick={() => rf?.zoomIn?.()}>Zoom In</button>
-            <button className="btn" onClick={() => rf?.zoomOut?.()}>Zoom Out</button>
-            <button className="btn" onClick={() => rf?.fitView({ padding: 0.2 })}>Fit</button>
-            <button className="btn btn-danger" onClick={() => { setNodes([]); setEdges([]); }}>Clear</button>
-          </div>
-        </Panel>
-
-        {ctxOpen && (
-          <div className="context-menu panel rounded-md" style={{ left: ctxPos.x, top: ctxPos.y }} onMouseLeave={closeMenu}>
-            <div className="px-3 py-2 text-xs uppercase text-white/60">{ctxTarget.kind === 'pane' ? 'Add Node' : 'Actions'}</div>
-            {ctxTarget.kind === 'pane' && (
-              <>
-                <div className="context-item" onClick={() => handleCtxAction('add:createImage')}>Create Image</div>
-                <div className="context-item" onClick={() => handleCtxAction('add:gradient')}>Add Gradient</div>
-                <div className="context-item" onClick={() => handleCtxAction('add:perlin')}>Perlin Noise</div>
-                <div className="context-item" onClick={() => handleCtxAction('add:combine')}>Combine</div>
-                <div className="context-item" onClick={() => handleCtxAction('add:display')}>Display</div>
-                <hr className="sep my-1" />
-                <div className="context-item" onClick={() => handleCtxAction('fit-view')}>Fit View</div>
-              </>
-            )}
-            {ctxTarget.kind === 'node' && (
-              <>
-                <div className="context-item text-red-300" onClick={() => handleCtxAction('delete-node')}>Delete Node</div>
-              </>
+    <div className="h-full w-full" onMouseMove={(e) => { pointerRef.current = { x: e.clientX, y: e.clientY }; }}>
+      <EvaluationContext.Provider value={evaluation}>
+        <TimelineContext.Provider value={timeline}>
+          <ExportContext.Provider value={exportState}>
+            <ReactFlow
+              nodes={nodes}
+              edges={edges}
+              onNodesChange={handleNodesChange}
+              onEdgesChange={handleEdgesChange}
+              onNodeDragStop={() => historyRef.current.breakMerge()}
+              onConnect={onConnect}
+              isValidConnection={isValidConnection}
+              onConnectStart={(_, { nodeId, handleId, handleType }) => {
+                rejectReasonRef.current = null;
+                connectStartRef.current = nodeId && handleType ? { nodeId, handleId, handleType } : null;
+              }}
+              onConnectEnd={onConnectEnd}
+              connectionLineComponent={ConnectionLine}
+              nodeTypes={nodeTypes}
+              onInit={setRf}
+              panOnScroll
+              panOnDrag
+              panActivationKeyCode={null}
+              zoomOnScroll
+              fitView
+              onPaneContextMenu={openPaneMenu}
+              onNodeContextMenu={(e, n) => openNodeMenu(e, n.id)}
+              onEdgeContextMenu={(e, ed) => openEdgeMenu(e, ed.id)}
+              onNodeDoubleClick={(_, n) => { if (n.type === 'group') enterGroup([...scopePath, n.id]); }}
+              onDragOver={onDragOver}
+              onDrop={onDrop}
+            >
+              <Background color="#30405f" gap={18} size={1} />
+              <MiniMap zoomable pannable nodeStrokeColor={n => '#7aa2f7'} nodeColor="#1f2a44" maskColor="rgba(5,8,16,0.6)" />
+              <Controls position="bottom-right" />
+
+              <Panel position="top-left">
+                <div className="panel rounded-lg p-2 flex items-center gap-2">
+                  {nodeCategories().map(({ category, definitions }) => (
+                    <select key={category} className="btn" value="" onChange={(e) => { if (e.target.value) addNode(e.target.value); }}>
+                      <option value="" disabled>{category}</option>
+                      {definitions.map(def => <option key={def.id} value={def.id}>{def.title}</option>)}
+                    </select>
+                  ))}
+                  {library.length > 0 && (
+                    <select className="btn" value="" onChange={(e) => { if (e.target.value) addLibraryGroup(e.target.value); }}>
+                      <option value="" disabled>Library</option>
+                      {library.map(entry => <option key={entry.name} value={entry.name}>{entry.name}</option>)}
+                    </select>
+                  )}
+                  <div className="mx-2 h-6 w-px bg-white/10" />
+                  <button className="btn" onClick={() => rf?.zoomIn?.()}>Zoom In</button>
+                  <button className="btn" onClick={() => rf?.zoomOut?.()}>Zoom Out</button>
+                  <button className="btn" onClick={() => rf?.fitView({ padding: 0.2 })}>Fit</button>
+                  <button className="btn" onClick={undo} disabled={!historyState.canUndo} title="Undo (Ctrl+Z)">Undo</button>
+                  <button className="btn" onClick={redo} disabled={!historyState.canRedo} title="Redo (Ctrl+Shift+Z)">Redo</button>
+                  <button className="btn btn-danger" onClick={clearGraph}>Clear</button>
+                  <div className="mx-2 h-6 w-px bg-white/10" />
+                  <button className="btn" onClick={() => setExplorer({})}>Variations</button>
+                  <button className="btn" onClick={() => setInspector(inspector ? null : {})}>Inspect</button>
+                  <div className="mx-2 h-6 w-px bg-white/10" />
+                  <button className="btn" onClick={saveFile}>Save</button>
+                  <button className="btn" onClick={() => fileInputRef.current?.click()}>Open</button>
+                  <button className="btn" onClick={copyLink} title="Copy a link that opens this graph">{linkCopied ? 'Copied!' : 'Copy Link'}</button>
+                  <div className="mx-2 h-6 w-px bg-white/10" />
+                  <div className="label" title="Default size for generators without a custom size">Resolution</div>
+                  <input className="input w-20" type="number" min={1} max={4096} step={32} value={settings.width} onChange={(e) => changeSetting('width', Number(e.target.value))} />
+                  <span className="text-[var(--muted)]">×</span>
+                  <input className="input w-20" type="number" min={1} max={4096} step={32} value={settings.height} onChange={(e) => changeSetting('height', Number(e.target.value))} />
+                  <div className="label ml-2" title="Resolution nodes are previewed at while editing. Selected nodes, the inspector and exports use full resolution.">Preview</div>
+                  <select className="input" value={proxy} onChange={(e) => changeProxy(Number(e.target.value))}>
+                    {PROXY_SCALES.map(scale => <option key={scale} value={scale}>{proxyLabel(scale)}</option>)}
+                  </select>
+                  <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={openFile} />
+                  {pending.size > 0 && <div className="flex items-center gap-2 px-2 text-xs text-[var(--muted)]"><span className="spinner" />Computing {planned - pending.size}/{planned}</div>}
+                </div>
+              </Panel>
+
+              <Panel position="top-right">
+                <div className="flex flex-col items-end gap-2">
+                  {scopes.length > 0 && (
+                    <div className="panel rounded-lg p-2 flex items-center gap-1 text-sm">
+                      <button className="btn text-xs" onClick={() => enterGroup([])}>Root</button>
+                      {scopes.map((scope, i) => (
+                        <React.Fragment key={scope.groupId}>
+                          <span className="text-[var(--muted)]">›</span>
+                          <button className="btn text-xs" disabled={i === scopes.length - 1} onClick={() => enterGroup(scopePath.slice(0, i + 1))}>{scope.title || 'Group'}</button>
+                        </React.Fragment>
+                      ))}
+                      <button className="btn btn-primary text-xs ml-2" onClick={() => enterGroup(scopePath.slice(0, -1))} title="Exit group (Esc)">Exit</button>
+                    </div>
+                  )}
+                  <ExportPanel outputs={exportTargets} settings={settings} onExport={exportOne} onExportAll={exportAll} onCancel={cancelExport} progress={exportProgress} />
+                  {inspector && (
+                    <ImageInspector
+                      key={inspector.node ?? ''}
+                      nodes={nodes}
+                      outputs={evaluation.outputs}
+                      selected={nodes.find(n => n.selected)?.id}
+                      initialNode={inspector.node}
+                      onTargets={setInspected}
+                      onClose={() => setInspector(null)}
+                    />
+                  )}
+                </div>
+              </Panel>
+
+              {notice && (
+                <Panel position="top-center">
+                  <div className="panel rounded-md px-3 py-2 text-sm text-red-200 border-red-400/30">{notice}</div>
+                </Panel>
+              )}
+
+              <Panel position="bottom-left">
+                <DiagnosticsPanel nodes={nodes} status={evaluation.status} onSelect={focusNode} />
+              </Panel>
+
+              <Panel position="bottom-center">
+                <Timeline
+                  nodes={nodes}
+                  settings={settings}
+                  frame={frame}
+                  playing={playing}
+                  onFrame={f => { setPlaying(false); setFrame(f); }}
+                  onPlay={setPlaying}
+                  onSettings={(key, value) => changeSetting(key, value, key === 'fps' ? 60 : 1000)}
+                  outputs={exportTargets.map(o => ({ id: o.id, label: `${o.name} #${o.id}` }))}
+                  onExport={exportAnimation}
+                  onCancel={cancelExport}
+                  progress={exportProgress}
+                />
+              </Panel>
+
+              {ctxOpen && (
+                <div className="context-menu panel rounded-md" style={{ left: ctxPos.x, top: ctxPos.y }} onMouseLeave={closeMenu}>
+                  <div className="px-3 py-2 text-xs uppercase text-white/60">{ctxTarget.kind === 'pane' ? 'Add Node' : 'Actions'}</div>
+                  {ctxTarget.kind === 'pane' && (
+                    <>
+                      {nodeCategories().map(({ category, definitions }) => (
+                        <React.Fragment key={category}>
+                          <div className="px-3 pt-2 text-[10px] uppercase tracking-wide text-white/40">{category}</div>
+                          {definitions.map(def => <div key={def.id} className="context-item" onClick={() => handleCtxAction(`add:${def.id}`)}>{def.title}</div>)}
+                        </React.Fragment>
+                      ))}
+                      {library.length > 0 && (
+                        <>
+                          <div className="px-3 pt-2 text-[10px] uppercase tracking-wide text-white/40">Library</div>
+                          {library.map(entry => (
+                            <div key={entry.name} className="context-item justify-between" onClick={() => handleCtxAction(`library:${entry.name}`)}>
+                              {entry.name}
+                              <span className="text-white/40 hover:text-red-300" title="Remove from library" onClick={(e) => { e.stopPropagation(); removeFromLibrary(entry.name); }}>×</span>
+                            </div>
+                          ))}
+                        </>
+                      )}
+                      <hr className="sep my-1" />
+                      <div className="context-item" onClick={() => handleCtxAction('fit-view')}>Fit View</div>
+                    </>
+                  )}
+                  {ctxTarget.kind === 'node' && (
+                    <>
+                      {ctxNode?.type === 'group' && <div className="context-item" onClick={() => handleCtxAction('enter-group')}>Enter Group</div>}
+                      {ctxNode?.type === 'group' && <div className="context-item" onClick={() => handleCtxAction('save-group')}>Save to Library…</div>}
+                      {ctxNode?.deletable !== false && <div className="context-item" onClick={() => handleCtxAction('duplicate')}>Duplicate (Ctrl+D)</div>}
+                      <div className="context-item" onClick={() => handleCtxAction('inspect')}>Inspect Output</div>
+                      <div className="context-item" onClick={() => handleCtxAction('variations')}>Explore Variations…</div>
+                      {ctxNode?.deletable !== false && <div className="context-item" onClick={() => handleCtxAction('group')}>Group Selected (Ctrl+G)</div>}
+                      {ctxNode?.deletable !== false && <div className="context-item text-red-300" onClick={() => handleCtxAction('delete-node')}>Delete Node</div>}
+                    </>
+                  )}
+                  {ctxTarget.kind === 'edge' && (
+                    <>
+                      <div className="context-item text-red-300" onClick={() => handleCtxAction('delete-edge')}>Delete Connection</div>
+                    </>
+                  )}
+                </div>
+              )}
+            </ReactFlow>
+            {palette && (
+              <NodePalette
+                position={palette.position}
+                items={visibleItems}
+                hint={from && (from.handleType === 'source' ? 'Takes the dragged output' : 'Feeds the dragged input')}
+                onPick={pickFromPalette}
+                onClose={() => setPalette(null)}
+              />
             )}
-            {ctxTarget.kind === 'edge' && (
-              <>
-                <div className="context-item text-red-300" onClick={() => handleCtxAction('delete-edge')}>Delete Connection</div>
-              </>
+            {explorer && (
+              <VariationExplorer
+                doc={graphDocument}
+                frame={frame}
+                nodes={nodes}
+                prefix={scopePath.map(id => `${id}/`).join('')}
+                outputs={exportTargets}
+                render={(doc, tasks, onImage) => clientRef.current!.render(doc, tasks, onImage)}
+                initialNode={explorer.node}
+                onApply={applyChanges}
+                onClose={() => setExplorer(null)}
+              />
             )}
-          </div>
-        )}
-      </ReactFlow>
+          </ExportContext.Provider>
+        </TimelineContext.Provider>
+      </EvaluationContext.Provider>
     </div>
   );
 }
@@ -0,0 +1,105 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import clsx from 'classnames';
+
+// One thing the palette can add: a node type, or a saved group with its data
+export type PaletteItem = { key: string; label: string; detail: string; type: string; data?: Record<string, unknown> };
+
+// Score of `query` as a subsequence of `text`, or null when it isn't one.
+// Consecutive letters and letters at word starts score higher, so "gb"
+// ranks "Gaussian Blur" above "Image Blend".
+function fuzzyScore(query: string, text: string): number | null {
+  const q = query.toLowerCase();
+  const t = text.toLowerCase();
+  let score = 0;
+  let at = 0;
+  let previous = -2;
+  for (const ch of q) {
+    if (ch === ' ') continue;
+    const i = t.indexOf(ch, at);
+    if (i < 0) return null;
+    score += 1;
+    if (i === previous + 1) score += 2;
+    if (i === 0 || /[\s\-/(]/.test(t[i - 1])) score += 3;
+    previous = i;
+    at = i + 1;
+  }
+  // shorter names win ties
+  return score - t.length * 0.01;
+}
+
+type NodePaletteProps = {
+  // screen position of the top-left corner
+  position: { x: number; y: number };
+  items: PaletteItem[];
+  // shown above the list, e.g. what a new node will be connected to
+  hint?: string;
+  onPick: (item: PaletteItem) => void;
+  onClose: () => void;
+};
+
+// Searchable list of node types; arrow keys move, Enter adds, Escape closes
+export function NodePalette({ position, items, hint, onPick, onClose }: NodePaletteProps) {
+  const [query, setQuery] = useState('');
+  const [active, setActive] = useState(0);
+  const listRef = useRef<HTMLDivElement | null>(null);
+
+  const matches = useMemo(() => {
+    if (!query.trim()) return items;
+    return items
+      .map(item => ({ item, score: Math.max(fuzzyScore(query, item.label) ?? -Infinity, (fuzzyScore(query, `${item.detail} ${item.label}`) ?? -Infinity) - 1) }))
+      .filter(m => m.score > -Infinity)
+      .sort((a, b) => b.score - a.score)
+      .map(m => m.item);
+  }, [items, query]);
+
+  useEffect(() => setActive(0), [query]);
+  useEffect(() => {
+    listRef.current?.children[active]?.scrollIntoView({ block: 'nearest' });
+  }, [active]);
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') setActive(i => Math.min(matches.length - 1, i + 1));
+    else if (e.key === 'ArrowUp') setActive(i => Math.max(0, i - 1));
+    else if (e.key === 'Enter' && matches[active]) onPick(matches[active]);
+    else if (e.key === 'Escape') onClose();
+    else return;
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  // keep the palette on screen
+  const left = Math.max(8, Math.min(position.x, window.innerWidth - 296));
+  const top = Math.max(8, Math.min(position.y, window.innerHeight - 340));
+
+  return (
+    <div className="fixed inset-0 z-50" onMouseDown={onClose}>
+      <div className="panel rounded-md w-72 shadow-soft absolute" style={{ left, top }} onMouseDown={(e) => e.stopPropagation()}>
+        <input
+          autoFocus
+          className="input w-full rounded-b-none"
+          placeholder="Add node…"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={onKeyDown}
+        />
+        {hint && <div className="px-3 pt-2 text-[10px] uppercase tracking-wide text-white/40">{hint}</div>}
+        <div ref={listRef} className="max-h-72 overflow-y-auto py-1">
+          {matches.map((item, i) => (
+            <div
+              key={item.key}
+              className={clsx('context-item justify-between', i === active && 'bg-white/10')}
+              onMouseEnter={() => setActive(i)}
+              onClick={() => onPick(item)}
+            >
+              <span>{item.label}</span>
+              <span className="text-xs text-white/40">{item.detail}</span>
+            </div>
+          ))}
+          {matches.length === 0 && <div className="px-3 py-2 text-xs text-[var(--muted)]">No matching nodes</div>}
+        </div>
+      </div>
+    </div>
+  );
+}
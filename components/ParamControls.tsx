@@ -0,0 +1,220 @@
+"use client";
+
+import React, { useRef, useState } from 'react';
+import clsx from 'classnames';
+import { ParamControlProps, registerParamControl } from '@/components/GraphNode';
+import { CurvePoints, Curves, GradientStop, evaluateCurve } from '@/lib/image';
+import type { KernelValue } from '@/lib/nodes/filters';
+import type { EmbeddedImage } from '@/lib/nodes/sources';
+
+// Custom parameter editors used by the built-in node packs. Importing this
+// module registers them.
+
+function identityKernel(size: number): number[] {
+  const values = new Array(size * size).fill(0);
+  values[(size * size - 1) / 2] = 1;
+  return values;
+}
+
+function KernelControl({ value, onChange }: ParamControlProps) {
+  const kernel = value as KernelValue;
+  const setCell = (i: number, v: number) => onChange({ ...kernel, values: kernel.values.map((old, j) => (j === i ? v : old)) });
+  return (
+    <div className="space-y-2">
+      <select className="input w-full" value={kernel.size} onChange={(e) => { const size = Number(e.target.value); onChange({ size, values: identityKernel(size) }); }}>
+        {[3, 5, 7].map(n => <option key={n} value={n}>{n}×{n}</option>)}
+      </select>
+      <div className="grid gap-1" style={{ gridTemplateColumns: `repeat(${kernel.size}, minmax(0, 1fr))` }}>
+        {kernel.values.map((v, i) => (
+          <input key={i} className="input nodrag px-1 text-center" type="number" step={0.1} value={v} onChange={(e) => setCell(i, Number(e.target.value))} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+registerParamControl('kernel', KernelControl);
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+// Position of a pointer event inside an element, in 0..1 with y pointing up
+function relativePoint(e: React.PointerEvent | React.MouseEvent, el: Element): [number, number] {
+  const rect = el.getBoundingClientRect();
+  return [clamp01((e.clientX - rect.left) / rect.width), clamp01(1 - (e.clientY - rect.top) / rect.height)];
+}
+
+const curveChannels: { key: keyof Curves; label: string; stroke: string }[] = [
+  { key: 'rgb', label: 'RGB', stroke: '#e5e7eb' },
+  { key: 'r', label: 'R', stroke: '#f87171' },
+  { key: 'g', label: 'G', stroke: '#4ade80' },
+  { key: 'b', label: 'B', stroke: '#60a5fa' },
+];
+
+// Click to add a point, drag to move it, double-click to remove it. The end
+// points can move vertically only.
+function CurvesControl({ value, onChange }: ParamControlProps) {
+  const curves = value as Curves;
+  const [channel, setChannel] = useState<keyof Curves>('rgb');
+  const [dragging, setDragging] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const points = curves[channel];
+  const stroke = curveChannels.find(c => c.key === channel)!.stroke;
+  const setPoints = (next: CurvePoints) => onChange({ ...curves, [channel]: next });
+
+  const path = Array.from({ length: 65 }, (_, i) => {
+    const x = i / 64;
+    return `${i ? 'L' : 'M'}${x * 100},${(1 - clamp01(evaluateCurve(points, x))) * 100}`;
+  }).join(' ');
+
+  const addPoint = (e: React.PointerEvent<SVGSVGElement>) => {
+    const [x, y] = relativePoint(e, e.currentTarget);
+    const next = [...points, [x, y] as [number, number]].sort((a, b) => a[0] - b[0]);
+    setPoints(next);
+    setDragging(next.findIndex(p => p[0] === x && p[1] === y));
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const move = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragging === null) return;
+    const [x, y] = relativePoint(e, e.currentTarget);
+    const last = points.length - 1;
+    // keep the point between its neighbours so the order never changes
+    const lo = dragging === 0 ? 0 : points[dragging - 1][0] + 0.01;
+    const hi = dragging === last ? 1 : points[dragging + 1][0] - 0.01;
+    const nx = dragging === 0 || dragging === last ? points[dragging][0] : Math.min(hi, Math.max(lo, x));
+    setPoints(points.map((p, i) => (i === dragging ? [nx, y] : p)));
+  };
+
+  const remove = (i: number) => {
+    if (i === 0 || i === points.length - 1) return;
+    setPoints(points.filter((_, j) => j !== i));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1">
+        {curveChannels.map(c => (
+          <button key={c.key} className={clsx('btn text-xs flex-1 px-1', channel === c.key && 'btn-primary')} onClick={() => setChannel(c.key)}>{c.label}</button>
+        ))}
+      </div>
+      <svg
+        ref={svgRef}
+        viewBox="-3 -3 106 106"
+        className="nodrag w-full aspect-square rounded-md border border-white/10 bg-black/20 cursor-crosshair touch-none"
+        onPointerDown={addPoint}
+        onPointerMove={move}
+        onPointerUp={() => setDragging(null)}
+      >
+        {[25, 50, 75].map(t => <path key={t} d={`M${t},0 V100 M0,${t} H100`} stroke="rgba(255,255,255,0.08)" strokeWidth={0.5} />)}
+        <path d="M0,100 L100,0" stroke="rgba(255,255,255,0.15)" strokeWidth={0.5} strokeDasharray="2 2" />
+        <path d={path} fill="none" stroke={stroke} strokeWidth={1.2} />
+        {points.map(([x, y], i) => (
+          <circle
+            key={i}
+            cx={x * 100}
+            cy={(1 - y) * 100}
+            r={3}
+            fill={dragging === i ? stroke : '#111827'}
+            stroke={stroke}
+            strokeWidth={1}
+            onPointerDown={(e) => { e.stopPropagation(); setDragging(i); svgRef.current?.setPointerCapture(e.pointerId); }}
+            onDoubleClick={() => remove(i)}
+          />
+        ))}
+      </svg>
+    </div>
+  );
+}
+
+registerParamControl('curves', CurvesControl);
+
+// Click the bar to add a stop; the selected stop's color and position are
+// edited below it
+function RampControl({ value, onChange }: ParamControlProps) {
+  const stops = value as GradientStop[];
+  const [selected, setSelected] = useState(0);
+  const current = stops[Math.min(selected, stops.length - 1)];
+  const sorted = [...stops].sort((a, b) => a.position - b.position);
+  const background = sorted.length > 1
+    ? `linear-gradient(to right, ${sorted.map(s => `${s.color} ${s.position * 100}%`).join(', ')})`
+    : sorted[0]?.color;
+
+  const update = (i: number, patch: Partial<GradientStop>) => onChange(stops.map((s, j) => (j === i ? { ...s, ...patch } : s)));
+
+  const add = (e: React.MouseEvent<HTMLDivElement>) => {
+    const [position] = relativePoint(e, e.currentTarget);
+    // new stops take the color the ramp already has at that point
+    const next = sorted.find(s => s.position >= position) ?? sorted[sorted.length - 1];
+    onChange([...stops, { position, color: next.color }]);
+    setSelected(stops.length);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative nodrag">
+        <div className="h-5 rounded-md border border-white/10 cursor-copy" style={{ background }} onClick={add} />
+        {stops.map((s, i) => (
+          <div
+            key={i}
+            className={clsx('absolute -bottom-1 w-2.5 h-2.5 -ml-[5px] rotate-45 border cursor-pointer', i === selected ? 'border-white' : 'border-black/60')}
+            style={{ left: `${s.position * 100}%`, background: s.color }}
+            onClick={() => setSelected(i)}
+          />
+        ))}
+      </div>
+      {current && (
+        <div className="flex items-center gap-2 pt-1">
+          <input className="input w-10 p-0.5" type="color" value={current.color} onChange={(e) => update(selected, { color: e.target.value })} />
+          <input className="input flex-1" type="number" min={0} max={1} step={0.01} value={current.position} onChange={(e) => update(selected, { position: clamp01(Number(e.target.value)) })} />
+          <button className="btn text-xs" disabled={stops.length <= 1} onClick={() => { onChange(stops.filter((_, j) => j !== selected)); setSelected(0); }}>Remove</button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+registerParamControl('ramp', RampControl);
+
+export const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+// Read a picked, dropped or pasted file for embedding in an Image node
+export function readImageFile(file: File): Promise<EmbeddedImage> {
+  if (!IMAGE_TYPES.includes(file.type)) return Promise.reject(new Error(`${file.name || 'File'} is not a PNG, JPEG or WebP image`));
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve({ name: file.name || 'pasted image', src: reader.result as string });
+    reader.onerror = () => reject(new Error(`Could not read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+}
+
+function ImageFileControl({ value, onChange }: ParamControlProps) {
+  const image = value as EmbeddedImage | null;
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const pick = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange(await readImageFile(file));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <button className="btn text-xs" onClick={() => inputRef.current?.click()}>{image ? 'Replace…' : 'Choose…'}</button>
+        <div className="text-xs text-[var(--muted)] truncate flex-1" title={image?.name}>{image?.name ?? 'Drop or paste an image'}</div>
+        <input ref={inputRef} type="file" accept={IMAGE_TYPES.join(',')} className="hidden" onChange={pick} />
+      </div>
+      {error && <div className="text-xs text-red-300">{error}</div>}
+    </div>
+  );
+}
+
+registerParamControl('imageFile', ImageFileControl);
@@ -0,0 +1,131 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Node } from 'reactflow';
+import clsx from 'classnames';
+import { DocumentSettings } from '@/lib/document';
+import { EASINGS, Easing, removeKeyframe, tracksOf, withTrack } from '@/lib/animation';
+import { getNodeDefinition } from '@/lib/nodes';
+
+export type AnimationFormat = 'png-sequence' | 'apng';
+
+type SelectedKey = { nodeId: string; key: string; frame: number };
+
+type TimelineProps = {
+  // nodes of the level on screen; their animated parameters get a track each
+  nodes: Node[];
+  settings: DocumentSettings;
+  frame: number;
+  playing: boolean;
+  onFrame: (frame: number) => void;
+  onPlay: (playing: boolean) => void;
+  onSettings: (key: 'fps' | 'frames', value: number) => void;
+  // display nodes that can be exported
+  outputs: { id: string; label: string }[];
+  onExport: (nodeId: string, format: AnimationFormat) => void;
+  onCancel: () => void;
+  // share of frames rendered while an export runs
+  progress: number | null;
+};
+
+// Play/scrub controls, one track per animated parameter, and animation export
+export function Timeline({ nodes, settings, frame, playing, onFrame, onPlay, onSettings, outputs, onExport, onCancel, progress }: TimelineProps) {
+  const [open, setOpen] = useState(true);
+  const [selected, setSelected] = useState<SelectedKey | null>(null);
+  const [output, setOutput] = useState('');
+  const [format, setFormat] = useState<AnimationFormat>('apng');
+  const last = settings.frames - 1;
+  const at = (f: number) => `${last > 0 ? (Math.min(f, last) / last) * 100 : 0}%`;
+
+  const tracks = nodes.flatMap(n => Object.entries(tracksOf(n.data)).map(([key, keys]) => {
+    const spec = getNodeDefinition(n.type)?.params.find(p => p.key === key);
+    return { node: n, key, keys, label: `${n.data.title ?? n.type} · ${spec?.label ?? key}` };
+  }));
+  const selectedTrack = selected && tracks.find(t => t.node.id === selected.nodeId && t.key === selected.key);
+  const selectedKey = selectedTrack?.keys.find(k => k.frame === selected!.frame);
+
+  const updateSelected = (easing: Easing | null) => {
+    if (!selectedTrack || !selected) return;
+    const data = selectedTrack.node.data;
+    const track = easing ? selectedTrack.keys.map(k => (k.frame === selected.frame ? { ...k, easing } : k)) : removeKeyframe(selectedTrack.keys, selected.frame);
+    // removing the last keyframe leaves the parameter at that value
+    if (!track.length) data[selected.key] = selectedKey?.value;
+    data.keyframes = withTrack(tracksOf(data), selected.key, track);
+    data.onChange?.(`keyframes.${selected.key}`);
+    if (!easing) setSelected(null);
+  };
+
+  const exportTarget = outputs.some(o => o.id === output) ? output : outputs[0]?.id;
+
+  return (
+    <div className="panel rounded-lg w-[560px] text-sm">
+      <div className="px-3 py-2 flex items-center gap-2">
+        <button className="btn text-xs w-14" onClick={() => onPlay(!playing)}>{playing ? 'Pause' : 'Play'}</button>
+        <input className="flex-1" type="range" min={0} max={last} step={1} value={frame} onChange={(e) => onFrame(Number(e.target.value))} />
+        <div className="w-16 text-right tabular-nums text-white/80">{frame} / {last}</div>
+        <button className="text-[var(--muted)]" onClick={() => setOpen(o => !o)}>{open ? '▾' : '▸'}</button>
+      </div>
+      {open && (
+        <div className="border-t border-white/10 px-3 py-2 space-y-2">
+          <div className="flex items-center gap-2">
+            <div className="label">Frames</div>
+            <input className="input w-16" type="number" min={1} max={1000} value={settings.frames} onChange={(e) => onSettings('frames', Number(e.target.value))} />
+            <div className="label">FPS</div>
+            <input className="input w-14" type="number" min={1} max={60} value={settings.fps} onChange={(e) => onSettings('fps', Number(e.target.value))} />
+            <div className="flex-1" />
+            {selectedKey && (
+              <>
+                <div className="label">Key {selected!.frame}</div>
+                <select className="input" value={selectedKey.easing} onChange={(e) => updateSelected(e.target.value as Easing)}>
+                  {EASINGS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                </select>
+                <button className="btn btn-danger text-xs" onClick={() => updateSelected(null)}>Delete</button>
+              </>
+            )}
+          </div>
+          {tracks.length === 0 && <div className="text-xs text-[var(--muted)]">Click ◇ next to a numeric or color parameter to animate it.</div>}
+          {tracks.length > 0 && (
+            <div className="max-h-40 overflow-y-auto space-y-1">
+              {tracks.map(t => (
+                <div key={`${t.node.id}.${t.key}`} className="flex items-center gap-2">
+                  <div className="w-40 truncate text-xs text-white/80" title={t.label}>{t.label}</div>
+                  <div className="relative flex-1 h-4 rounded bg-white/5">
+                    <div className="absolute top-0 bottom-0 w-px bg-[var(--accent)]/60" style={{ left: at(frame) }} />
+                    {t.keys.map(k => {
+                      const active = selected?.nodeId === t.node.id && selected.key === t.key && selected.frame === k.frame;
+                      return (
+                        <button
+                          key={k.frame}
+                          className={clsx('absolute top-0 -translate-x-1/2 text-[11px] leading-4', active ? 'text-white' : 'text-[var(--accent)]')}
+                          style={{ left: at(k.frame) }}
+                          title={`Frame ${k.frame}: ${k.value} (${k.easing})`}
+                          onClick={() => { setSelected({ nodeId: t.node.id, key: t.key, frame: k.frame }); onFrame(k.frame); }}
+                        >
+                          ◆
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex items-center gap-2 border-t border-white/10 pt-2">
+            <div className="label">Export</div>
+            <select className="input" value={exportTarget ?? ''} onChange={(e) => setOutput(e.target.value)} disabled={!outputs.length}>
+              {outputs.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+            </select>
+            <select className="input" value={format} onChange={(e) => setFormat(e.target.value as AnimationFormat)}>
+              <option value="apng">Animated PNG</option>
+              <option value="png-sequence">PNG sequence (ZIP)</option>
+            </select>
+            <button className="btn btn-primary text-xs" disabled={!exportTarget || progress !== null} onClick={() => exportTarget && onExport(exportTarget, format)}>
+              {progress !== null ? `Rendering ${Math.round(progress * 100)}%` : 'Export'}
+            </button>
+            {progress !== null && <button className="btn text-xs" onClick={onCancel}>Cancel</button>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
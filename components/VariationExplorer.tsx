@@ -0,0 +1,248 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Node } from 'reactflow';
+import clsx from 'classnames';
+import { Preview } from '@/components/GraphNode';
+import { GraphDocument } from '@/lib/document';
+import type { EvaluationClient, RenderJob } from '@/lib/evaluationClient';
+import { ExportOutput, downloadBytes } from '@/lib/export';
+import { ParamSpec, getNodeDefinition } from '@/lib/nodes';
+import { encodePng } from '@/lib/png';
+import { ParamChange, SweepAxis, THUMBNAIL_SIZE, Variation, defaultSweep, formatValue, isSweepable, numberSweep, thumbnailScale, toVariation, variationGrid, variationTasks } from '@/lib/variations';
+
+const MAX_CELLS = 64;
+const MAX_STEPS = 12;
+
+type AxisConfig = { node: string; key: string; from: number; to: number; count: number; options: string[] };
+
+type VariationExplorerProps = {
+  doc: GraphDocument;
+  frame: number;
+  // nodes of the level on screen, whose parameters can be swept
+  nodes: Node[];
+  // expanded-id prefix of that level
+  prefix: string;
+  outputs: ExportOutput[];
+  // renders in the evaluation worker
+  render: EvaluationClient['render'];
+  initialNode?: string;
+  // changes use the nodes' own ids
+  onApply: (changes: ParamChange[]) => void;
+  onClose: () => void;
+};
+
+function sweepableParams(node: Node | undefined): ParamSpec[] {
+  return getNodeDefinition(node?.type)?.params.filter(isSweepable) ?? [];
+}
+
+function axisFor(node: Node, spec: ParamSpec): AxisConfig {
+  const { from, to } = defaultSweep(spec, node.data[spec.key]);
+  const options = spec.control === 'select' ? spec.options.map(o => o.value) : [];
+  return { node: node.id, key: spec.key, from, to, count: spec.control === 'number' || spec.control === 'range' ? 8 : options.length, options };
+}
+
+function axisValues(axis: AxisConfig, spec: ParamSpec): unknown[] {
+  if (spec.control === 'select') return axis.options;
+  if (spec.control === 'toggle') return [false, true];
+  return numberSweep(spec, axis.from, axis.to, axis.count);
+}
+
+function changeLabel(c: ParamChange): string {
+  return `${c.key} ${formatValue(c.value)}`;
+}
+
+// Grid of thumbnails with their values underneath, as one image
+function contactSheet(grid: Variation[][], cell: number): ImageData {
+  const label = 18;
+  const gap = 8;
+  const columns = grid[0]?.length ?? 0;
+  const canvas = new OffscreenCanvas(gap + columns * (cell + gap), gap + grid.length * (cell + label + gap));
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#0b1020';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.font = '11px sans-serif';
+  ctx.textBaseline = 'top';
+  grid.forEach((row, r) => row.forEach((v, c) => {
+    const x = gap + c * (cell + gap);
+    const y = gap + r * (cell + label + gap);
+    if (v.image) {
+      const source = new OffscreenCanvas(v.image.width, v.image.height);
+      source.getContext('2d')!.putImageData(v.image, 0, 0);
+      const scale = Math.min(cell / v.image.width, cell / v.image.height);
+      const w = v.image.width * scale;
+      const h = v.image.height * scale;
+      ctx.drawImage(source, x + (cell - w) / 2, y + (cell - h) / 2, w, h);
+    }
+    ctx.fillStyle = v.image ? '#cbd5e1' : '#fda4af';
+    ctx.fillText(v.image ? v.changes.map(changeLabel).join(' · ') : v.error ?? '', x, y + cell + 4, cell);
+  }));
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+// Sweeps one or two parameters and shows the target output for every
+// combination; clicking a cell applies its values to the graph
+export function VariationExplorer({ doc, frame, nodes, prefix, outputs, render: renderInWorker, initialNode, onApply, onClose }: VariationExplorerProps) {
+  const candidates = nodes.filter(n => sweepableParams(n).length > 0);
+  const start = candidates.find(n => n.id === initialNode) ?? candidates[0];
+  const [output, setOutput] = useState(outputs[0]?.id ?? '');
+  const [axes, setAxes] = useState<(AxisConfig | null)[]>(() => [start ? axisFor(start, sweepableParams(start)[0]) : null, null]);
+  const [grid, setGrid] = useState<(Variation | null)[][]>([]);
+  const [rendering, setRendering] = useState(false);
+  const [applied, setApplied] = useState<string | null>(null);
+  const jobRef = useRef<RenderJob | null>(null);
+
+  useEffect(() => () => jobRef.current?.cancel(), []);
+
+  const specOf = (axis: AxisConfig) => sweepableParams(nodes.find(n => n.id === axis.node)).find(p => p.key === axis.key);
+  const sweep: SweepAxis[] = axes.flatMap(axis => {
+    const spec = axis && specOf(axis);
+    return axis && spec ? [{ node: prefix + axis.node, spec, values: axisValues(axis, spec) }] : [];
+  });
+  const cells = sweep.reduce((n, axis) => n * axis.values.length, 1);
+  const target = outputs.some(o => o.id === output) ? output : outputs[0]?.id;
+
+  const updateAxis = (i: number, next: AxisConfig | null) => setAxes(a => a.map((axis, j) => (j === i ? next : axis)));
+
+  const render = async () => {
+    if (!target || !sweep.length || cells > MAX_CELLS) return;
+    jobRef.current?.cancel();
+    const changes = variationGrid(sweep);
+    const columns = changes[0].length;
+    setGrid(changes.map(row => row.map(() => null)));
+    setApplied(null);
+    setRendering(true);
+    const job = renderInWorker(doc, variationTasks(changes, target, frame, thumbnailScale(doc.settings)), (i, rendered) => {
+      const r = Math.floor(i / columns);
+      const c = i % columns;
+      setGrid(g => g.map((row, j) => (j === r ? row.map((v, k) => (k === c ? toVariation(changes[r][c], rendered) : v)) : row)));
+    });
+    jobRef.current = job;
+    // cells a cancelled or failed job never reached say so instead of spinning
+    const fillUnfinished = (error: string) => {
+      if (jobRef.current === job) setGrid(g => g.map((row, r) => row.map((v, c) => v ?? { changes: changes[r][c], image: null, error })));
+    };
+    try {
+      if (!(await job.images)) fillUnfinished('Cancelled');
+    } catch (e) {
+      fillUnfinished(e instanceof Error ? e.message : String(e));
+    } finally {
+      if (jobRef.current === job) {
+        jobRef.current = null;
+        setRendering(false);
+      }
+    }
+  };
+
+  const apply = (variation: Variation, id: string) => {
+    onApply(variation.changes.map(c => ({ ...c, node: c.node.slice(prefix.length) })));
+    setApplied(id);
+  };
+
+  const complete = grid.length > 0 && grid.every(row => row.every(Boolean));
+  const exportSheet = () => {
+    if (complete) downloadBytes(encodePng(contactSheet(grid as Variation[][], THUMBNAIL_SIZE)), 'variations.png', 'image/png');
+  };
+
+  const axisEditor = (axis: AxisConfig | null, i: number) => {
+    const spec = axis && specOf(axis);
+    const node = axis && nodes.find(n => n.id === axis.node);
+    return (
+      <div key={i} className="space-y-2 rounded-md border border-white/10 p-2">
+        <div className="flex items-center gap-2">
+          <div className="label w-16">{i === 0 ? 'Columns' : 'Rows'}</div>
+          <select
+            className="input flex-1"
+            value={axis?.node ?? ''}
+            onChange={(e) => {
+              const n = candidates.find(c => c.id === e.target.value);
+              updateAxis(i, n ? axisFor(n, sweepableParams(n)[0]) : null);
+            }}
+          >
+            {i > 0 && <option value="">None</option>}
+            {candidates.map(n => <option key={n.id} value={n.id}>{String(n.data.title ?? n.type)} #{n.id}</option>)}
+          </select>
+          {axis && node && (
+            <select className="input flex-1" value={axis.key} onChange={(e) => updateAxis(i, axisFor(node, sweepableParams(node).find(p => p.key === e.target.value)!))}>
+              {sweepableParams(node).map(p => <option key={p.key} value={p.key}>{p.label}</option>)}
+            </select>
+          )}
+        </div>
+        {axis && spec && (spec.control === 'number' || spec.control === 'range') && (
+          <div className="flex items-center gap-2">
+            <div className="label w-16">From</div>
+            <input className="input w-20" type="number" step={spec.step} value={axis.from} onChange={(e) => updateAxis(i, { ...axis, from: Number(e.target.value) })} />
+            <div className="label">To</div>
+            <input className="input w-20" type="number" step={spec.step} value={axis.to} onChange={(e) => updateAxis(i, { ...axis, to: Number(e.target.value) })} />
+            <div className="label">Steps</div>
+            <input className="input w-16" type="number" min={1} max={MAX_STEPS} value={axis.count} onChange={(e) => updateAxis(i, { ...axis, count: Math.max(1, Math.min(MAX_STEPS, Math.round(Number(e.target.value)) || 1)) })} />
+          </div>
+        )}
+        {axis && spec?.control === 'select' && (
+          <div className="flex flex-wrap gap-x-3 gap-y-1">
+            {spec.options.map(o => (
+              <label key={o.value} className="flex items-center gap-1 text-xs text-white/80">
+                <input
+                  type="checkbox"
+                  checked={axis.options.includes(o.value)}
+                  onChange={(e) => updateAxis(i, { ...axis, options: e.target.checked ? spec.options.map(p => p.value).filter(v => v === o.value || axis.options.includes(v)) : axis.options.filter(v => v !== o.value) })}
+                />
+                {o.label}
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const columns = grid[0]?.length ?? 1;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div className="panel rounded-lg w-[min(960px,95vw)] max-h-[90vh] flex flex-col text-sm" onClick={(e) => e.stopPropagation()}>
+        <div className="px-3 py-2 flex items-center justify-between border-b border-white/10">
+          <span className="label">Variations</span>
+          <button className="text-[var(--muted)] hover:text-white" onClick={onClose}>×</button>
+        </div>
+        <div className="p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <div className="label w-16">Output</div>
+            <select className="input flex-1" value={target ?? ''} onChange={(e) => setOutput(e.target.value)} disabled={!outputs.length}>
+              {outputs.map(o => <option key={o.id} value={o.id}>{o.name} #{o.id}</option>)}
+            </select>
+          </div>
+          {!outputs.length && <div className="text-xs text-[var(--muted)]">Add a Display Image node to choose what to compare.</div>}
+          {!candidates.length && <div className="text-xs text-[var(--muted)]">No node on this level has a numeric, choice or on/off parameter.</div>}
+          {candidates.length > 0 && axes.map(axisEditor)}
+          <div className="flex items-center gap-2">
+            <button className="btn btn-primary text-xs" disabled={!target || !sweep.length || cells > MAX_CELLS || rendering} onClick={render}>Render {cells} variation{cells === 1 ? '' : 's'}</button>
+            <button className="btn text-xs" disabled={!complete || rendering} onClick={exportSheet}>Export Sheet</button>
+            {cells > MAX_CELLS && <span className="text-xs text-red-200">At most {MAX_CELLS} variations at once</span>}
+            {rendering && <span className="flex items-center gap-2 text-xs text-[var(--muted)]"><span className="spinner" />Rendering</span>}
+            {rendering && <button className="btn text-xs" onClick={() => jobRef.current?.cancel()}>Cancel</button>}
+          </div>
+        </div>
+        {grid.length > 0 && (
+          <div className="border-t border-white/10 p-3 overflow-y-auto grid gap-2" style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}>
+            {grid.flatMap((row, r) => row.map((v, c) => {
+              const id = `${r}:${c}`;
+              return (
+                <button
+                  key={id}
+                  className={clsx('rounded-md p-1 text-left hover:bg-white/5', applied === id && 'ring-1 ring-[var(--accent)]')}
+                  disabled={!v?.image}
+                  title={v ? 'Apply these values' : undefined}
+                  onClick={() => v && apply(v, id)}
+                >
+                  {v?.image ? <Preview img={v.image} className="max-h-40 object-contain" /> : <div className="aspect-square rounded-md border border-white/10 bg-black/20 flex items-center justify-center">{v ? <span className="text-xs text-red-200 px-1">{v.error}</span> : <span className="spinner" />}</div>}
+                  <div className="mt-1 truncate text-[11px] text-white/70">{v?.changes.map(changeLabel).join(' · ')}</div>
+                </button>
+              );
+            }))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { Keyframe, removeKeyframe, sampleParams, sampleTrack, setKeyframe, withTrack } from '@/lib/animation';
+import { getNodeDefinition } from '@/lib/nodes';
+
+const key = (frame: number, value: number | string, easing: Keyframe['easing'] = 'linear'): Keyframe => ({ frame, value, easing });
+
+describe('sampleTrack', () => {
+  it('holds the ends and interpolates between keyframes', () => {
+    const track = [key(10, 0), key(20, 100)];
+    expect(sampleTrack(track, 0)).toBe(0);
+    expect(sampleTrack(track, 15)).toBe(50);
+    expect(sampleTrack(track, 30)).toBe(100);
+  });
+
+  it('applies the easing of the segment start', () => {
+    expect(sampleTrack([key(0, 0, 'ease-in'), key(10, 100)], 5)).toBe(25);
+    expect(sampleTrack([key(0, 0, 'ease-out'), key(10, 100)], 5)).toBe(75);
+    expect(sampleTrack([key(0, 0, 'hold'), key(10, 100)], 9)).toBe(0);
+  });
+
+  it('blends colors channel by channel', () => {
+    expect(sampleTrack([key(0, '#000000'), key(4, '#ff8040')], 2)).toBe('#804020');
+  });
+});
+
+describe('keyframe editing', () => {
+  it('replaces keyframes in place, keeping their easing, and stays sorted', () => {
+    let track = setKeyframe(undefined, 10, 1);
+    track = setKeyframe([{ ...track[0], easing: 'hold' }], 10, 2);
+    track = setKeyframe(track, 0, 5);
+    expect(track).toEqual([key(0, 5), key(10, 2, 'hold')]);
+    expect(removeKeyframe(track, 0)).toEqual([key(10, 2, 'hold')]);
+  });
+
+  it('drops empty tracks', () => {
+    expect(withTrack({ seed: [key(0, 1)], scale: [key(0, 2)] }, 'seed', [])).toEqual({ scale: [key(0, 2)] });
+  });
+});
+
+describe('sampleParams', () => {
+  it('samples animated parameters and rounds whole-number ones', () => {
+    const def = getNodeDefinition('levels');
+    const data = { inBlack: 0, gamma: 1, keyframes: { inBlack: [key(0, 0), key(3, 1)], gamma: [key(0, 1), key(4, 2)] } };
+    expect(sampleParams(def, data, 1)).toEqual({ inBlack: 0, gamma: 1.25 });
+    expect(sampleParams(def, data, 2)).toEqual({ inBlack: 1, gamma: 1.5 });
+  });
+});
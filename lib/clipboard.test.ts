@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { copyNodes, pasteNodes, readClipboard } from '@/lib/clipboard';
+import { GraphDocumentError } from '@/lib/document';
+import '@/lib/nodes';
+
+const nodes = [
+  { id: '1', type: 'perlin', position: { x: 100, y: 50 }, data: { scale: 4, seed: 1, onChange: () => {} } },
+  { id: '2', type: 'invert', position: { x: 300, y: 80 }, data: {} },
+  { id: '3', type: 'display', position: { x: 500, y: 80 }, data: {} },
+  { id: 'input', type: 'groupInput', position: { x: 0, y: 0 }, data: {} },
+];
+const edges = [
+  { id: 'a', source: '1', target: '2', sourceHandle: 'out', targetHandle: 'in' },
+  { id: 'b', source: '2', target: '3', sourceHandle: 'out', targetHandle: 'in' },
+];
+
+describe('copyNodes', () => {
+  it('copies the selection with the edges inside it, without group boundaries', () => {
+    const doc = readClipboard(copyNodes(nodes, edges, new Set(['1', '2', 'input']))!)!;
+    expect(doc.nodes.map(n => n.id)).toEqual(['1', '2']);
+    expect(doc.nodes[0].data).toEqual({ scale: 4, seed: 1 });
+    expect(doc.edges.map(e => e.id)).toEqual(['a']);
+  });
+
+  it('copies nothing when only boundaries are selected', () => {
+    expect(copyNodes(nodes, edges, new Set(['input']))).toBeNull();
+  });
+});
+
+describe('readClipboard', () => {
+  it('ignores text that is not a graph', () => {
+    expect(readClipboard('hello')).toBeNull();
+    expect(readClipboard('{"some": "json"}')).toBeNull();
+  });
+
+  it('rejects node types this editor does not have', () => {
+    const text = copyNodes([{ ...nodes[0], type: 'mystery' }], [], new Set(['1']))!;
+    expect(() => readClipboard(text)).toThrow(GraphDocumentError);
+  });
+});
+
+describe('pasteNodes', () => {
+  it('renumbers nodes and edges and moves the cluster to the position', () => {
+    const doc = readClipboard(copyNodes(nodes, edges, new Set(['1', '2', '3']))!)!;
+    const pasted = pasteNodes(doc, 10, { x: 0, y: 0 });
+    expect(pasted.nodes.map(n => [n.id, n.position])).toEqual([['10', { x: 0, y: 0 }], ['11', { x: 200, y: 30 }], ['12', { x: 400, y: 30 }]]);
+    expect(pasted.edges.map(e => [e.id, e.source, e.target])).toEqual([['reactflow__edge-10out-11in', '10', '11'], ['reactflow__edge-11out-12in', '11', '12']]);
+  });
+
+  it('copies parameters deeply', () => {
+    const doc = readClipboard(copyNodes([{ ...nodes[0], data: { graph: { nodes: [] } } }], [], new Set(['1']))!)!;
+    const [a, b] = [pasteNodes(doc, 1, { x: 0, y: 0 }), pasteNodes(doc, 2, { x: 0, y: 0 })];
+    expect(a.nodes[0].data.graph).not.toBe(b.nodes[0].data.graph);
+  });
+});
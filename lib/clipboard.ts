@@ -0,0 +1,57 @@
+import { DocumentEdge, DocumentNode, DocumentSettings, GraphDocument, GraphDocumentError, parseGraphDocument, serializeGraph, stringifyGraphDocument } from '@/lib/document';
+import { isGroupBoundary } from '@/lib/groups';
+import { getNodeDefinition } from '@/lib/nodes';
+
+// Copy and paste of node clusters. The clipboard holds an ordinary graph
+// document with just the copied nodes and the edges between them, so it can
+// travel between tabs or through a chat message, and a saved graph file
+// pastes as well.
+
+type NodeLike = { id: string; type?: string; position: { x: number; y: number }; data?: any };
+type EdgeLike = { id: string; source: string; target: string; sourceHandle?: string | null; targetHandle?: string | null };
+
+// Group input and output nodes belong to their group and are never copied
+export function copyNodes(nodes: NodeLike[], edges: EdgeLike[], selected: ReadonlySet<string>, settings?: DocumentSettings): string | null {
+  const copied = nodes.filter(n => selected.has(n.id) && !isGroupBoundary(n.type));
+  if (!copied.length) return null;
+  const ids = new Set(copied.map(n => n.id));
+  return stringifyGraphDocument(serializeGraph(copied, edges.filter(e => ids.has(e.source) && ids.has(e.target)), settings));
+}
+
+// Clipboard text as a graph, or null when it isn't one; JSON without nodes
+// would migrate to an empty graph and counts as no graph
+export function readClipboard(text: string): GraphDocument | null {
+  if (!text.trimStart().startsWith('{')) return null;
+  let doc: GraphDocument;
+  try {
+    doc = parseGraphDocument(text);
+  } catch (e) {
+    return null;
+  }
+  if (!doc.nodes.length) return null;
+  const unknown = doc.nodes.filter(n => !getNodeDefinition(n.type) || isGroupBoundary(n.type)).map(n => n.type);
+  if (unknown.length) throw new GraphDocumentError(`Can't paste node type(s): ${Array.from(new Set(unknown)).join(', ')}`);
+  return doc;
+}
+
+// The copied nodes with fresh ids counting up from `firstId`, moved so their
+// top-left corner lands on `position`
+export function pasteNodes(doc: GraphDocument, firstId: number, position: { x: number; y: number }): { nodes: DocumentNode[]; edges: DocumentEdge[] } {
+  const ids = new Map(doc.nodes.map((n, i) => [n.id, String(firstId + i)]));
+  const left = Math.min(...doc.nodes.map(n => n.position.x));
+  const top = Math.min(...doc.nodes.map(n => n.position.y));
+  return {
+    nodes: doc.nodes.map(n => ({
+      ...n,
+      id: ids.get(n.id)!,
+      position: { x: n.position.x - left + position.x, y: n.position.y - top + position.y },
+      // parameters are copied deeply, so pasted groups don't share inner graphs
+      data: JSON.parse(JSON.stringify(n.data)),
+    })),
+    edges: doc.edges.map(e => {
+      const source = ids.get(e.source)!;
+      const target = ids.get(e.target)!;
+      return { ...e, id: `reactflow__edge-${source}${e.sourceHandle ?? ''}-${target}${e.targetHandle ?? ''}`, source, target };
+    }),
+  };
+}
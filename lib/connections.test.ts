@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { checkConnection, edgesAfterConnect, edgesAfterRemoving, matchingPort } from '@/lib/connections';
+import { migrateGraphDocument, serializeGraph } from '@/lib/document';
+
+const at = { x: 0, y: 0 };
+const nodes = ['1', '2', '3'].map(id => ({ id, type: 'invert', position: at, data: {} }));
+const edges = [
+  { id: 'a', source: '1', target: '2', targetHandle: 'in' },
+  { id: 'b', source: '2', target: '3', targetHandle: 'in' },
+  { id: 'c', source: '1', target: '3', targetHandle: 'in' },
+];
+
+describe('edgesAfterRemoving', () => {
+  it('drops every edge that touches a removed node', () => {
+    expect(edgesAfterRemoving(new Set(['2']), edges).map(e => e.id)).toEqual(['c']);
+    expect(edgesAfterRemoving(new Set(['1', '3']), edges)).toEqual([]);
+    expect(edgesAfterRemoving(new Set(), edges)).toEqual(edges);
+  });
+
+  it('leaves a graph the document validator accepts', () => {
+    const removed = new Set(['2']);
+    const doc = serializeGraph(nodes.filter(n => !removed.has(n.id)), edgesAfterRemoving(removed, edges));
+    expect(() => migrateGraphDocument(JSON.parse(JSON.stringify(doc)))).not.toThrow();
+  });
+});
+
+describe('checkConnection', () => {
+  const graph = [
+    ...nodes,
+    { id: 'n', type: 'numberValue', position: at, data: {} },
+    { id: 't', type: 'threshold', position: at, data: {} },
+    { id: 'd', type: 'display', position: at, data: {} },
+  ];
+
+  it('accepts a link into an occupied input and replaces the old one', () => {
+    const connection = { source: '1', target: '3', targetHandle: 'in' };
+    expect(checkConnection(connection, graph, edges)).toEqual({ ok: true });
+    expect(edgesAfterConnect(connection, edges).map(e => e.id)).toEqual(['a']);
+  });
+
+  it('rejects a cycle', () => {
+    expect(checkConnection({ source: '3', target: '1', targetHandle: 'in' }, graph, edges)).toEqual({ ok: false, reason: 'Connection would create a cycle' });
+  });
+
+  it('rejects mismatched port types', () => {
+    expect(checkConnection({ source: 'n', target: 'd', targetHandle: 'in' }, graph, edges)).toEqual({ ok: false, reason: 'Cannot connect scalar output to image input' });
+    expect(checkConnection({ source: '1', target: 't', targetHandle: 'level' }, graph, edges)).toEqual({ ok: false, reason: 'Cannot connect image output to scalar input' });
+    expect(checkConnection({ source: 'n', target: 't', targetHandle: 'level' }, graph, edges)).toEqual({ ok: true });
+  });
+});
+
+describe('matchingPort', () => {
+  const graph = [
+    { id: 'i', type: 'invert', data: {} },
+    { id: 't', type: 'threshold', data: {} },
+    { id: 'n', type: 'numberValue', data: {} },
+  ];
+  const candidate = (type: string) => ({ id: 'new', type, data: {} });
+  const fromOutput = (nodeId: string) => ({ nodeId, handleId: null, handleType: 'source' as const });
+
+  it('picks the first compatible input, preferring the same port type', () => {
+    expect(matchingPort(fromOutput('i'), graph, candidate('combine'))?.id).toBe('a');
+    expect(matchingPort(fromOutput('t'), graph, candidate('combine'))?.id).toBe('mask');
+    expect(matchingPort(fromOutput('n'), graph, candidate('threshold'))?.id).toBe('level');
+    expect(matchingPort(fromOutput('n'), graph, candidate('invert'))).toBeUndefined();
+  });
+
+  it('picks an output when the drag started from an input', () => {
+    expect(matchingPort({ nodeId: 't', handleId: 'level', handleType: 'target' }, graph, candidate('averageColor'))?.id).toBe('luminance');
+    expect(matchingPort({ nodeId: 't', handleId: 'in', handleType: 'target' }, graph, candidate('perlin'))?.id).toBe('out');
+    expect(matchingPort({ nodeId: 't', handleId: 'in', handleType: 'target' }, graph, candidate('averageColor'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,118 @@
+import { PortSpec, canConnectPorts, getNodeDefinition, nodePorts } from '@/lib/nodes';
+
+type NodeRef = { id: string; type?: string; data?: any };
+type EdgeRef = { id?: string; source: string; target: string; sourceHandle?: string | null; targetHandle?: string | null };
+type ConnectionRef = { source: string | null; target: string | null; sourceHandle?: string | null; targetHandle?: string | null };
+
+export type ConnectionCheck = { ok: true } | { ok: false; reason: string };
+
+// True when `to` is reachable from `from` by following edges downstream
+function reaches(from: string, to: string, edges: EdgeRef[]): boolean {
+  const seen = new Set<string>();
+  const stack = [from];
+  while (stack.length) {
+    const id = stack.pop()!;
+    if (id === to) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    edges.forEach(e => { if (e.source === id) stack.push(e.target); });
+  }
+  return false;
+}
+
+// Edges that stay after `connection` is made: an input holds one link, so an
+// existing edge into the same target handle is replaced
+export function edgesAfterConnect<E extends EdgeRef>(connection: ConnectionRef, edges: E[]): E[] {
+  return edges.filter(e => !(e.target === connection.target && (e.targetHandle ?? null) === (connection.targetHandle ?? null)));
+}
+
+// Edges that stay after the nodes `removed` are deleted: none may keep a
+// dangling end, which the document validator rejects
+export function edgesAfterRemoving<E extends EdgeRef>(removed: ReadonlySet<string>, edges: E[]): E[] {
+  return edges.filter(e => !removed.has(e.source) && !removed.has(e.target));
+}
+
+export function checkConnection(connection: ConnectionRef, nodes: NodeRef[], edges: EdgeRef[]): ConnectionCheck {
+  const { source, target } = connection;
+  if (!source || !target) return { ok: false, reason: 'Incomplete connection' };
+  if (source === target) return { ok: false, reason: 'A node cannot connect to itself' };
+  const sourceNode = nodes.find(n => n.id === source);
+  const targetNode = nodes.find(n => n.id === target);
+  const sourceDef = getNodeDefinition(sourceNode?.type);
+  const targetDef = getNodeDefinition(targetNode?.type);
+  if (!sourceDef || !targetDef) return { ok: false, reason: 'Unknown node' };
+  const outputs = nodePorts(sourceDef, sourceNode?.data).outputs;
+  const inputs = nodePorts(targetDef, targetNode?.data).inputs;
+  const out = outputs.find(p => p.id === (connection.sourceHandle ?? outputs[0]?.id));
+  const inp = inputs.find(p => p.id === (connection.targetHandle ?? inputs[0]?.id));
+  if (!out || !inp) return { ok: false, reason: 'Unknown port' };
+  if (!canConnectPorts(out.type, inp.type)) return { ok: false, reason: `Cannot connect ${out.type} output to ${inp.type} input` };
+  if (reaches(target, source, edgesAfterConnect(connection, edges))) return { ok: false, reason: 'Connection would create a cycle' };
+  return { ok: true };
+}
+
+// A connection drag released over empty canvas: the node and handle it
+// started from, `source` for an output and `target` for an input
+export type DanglingConnection = { nodeId: string; handleId: string | null; handleType: 'source' | 'target' };
+
+// Port of `candidate` (a node not in the graph yet) that would complete the
+// dangling connection, if any
+export function matchingPort(from: DanglingConnection, nodes: NodeRef[], candidate: NodeRef): PortSpec | undefined {
+  const node = nodes.find(n => n.id === from.nodeId);
+  const def = getNodeDefinition(node?.type);
+  const candidateDef = getNodeDefinition(candidate.type);
+  if (!def || !candidateDef) return undefined;
+  const side = from.handleType === 'source' ? 'outputs' : 'inputs';
+  const ports = nodePorts(def, node?.data)[side];
+  const port = ports.find(p => p.id === (from.handleId ?? ports[0]?.id));
+  if (!port) return undefined;
+  const candidatePorts = nodePorts(candidateDef, candidate.data);
+  const options = from.handleType === 'source'
+    ? candidatePorts.inputs.filter(p => canConnectPorts(port.type, p.type))
+    : candidatePorts.outputs.filter(p => canConnectPorts(p.type, port.type));
+  // a port of the same type wins over an implicit conversion
+  return options.find(p => p.type === port.type) ?? options[0];
+}
+
+// Nodes that sit on a cycle (Tarjan's strongly connected components). Graphs
+// built in the editor can't contain one, but loaded documents can.
+export function findCycleNodes(nodes: NodeRef[], edges: EdgeRef[]): Set<string> {
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const result = new Set<string>();
+  let counter = 0;
+
+  const strongConnect = (v: string) => {
+    index.set(v, counter);
+    low.set(v, counter);
+    counter++;
+    stack.push(v);
+    onStack.add(v);
+    for (const e of edges) {
+      if (e.source !== v) continue;
+      const w = e.target;
+      if (!index.has(w)) {
+        strongConnect(w);
+        low.set(v, Math.min(low.get(v)!, low.get(w)!));
+      } else if (onStack.has(w)) {
+        low.set(v, Math.min(low.get(v)!, index.get(w)!));
+      }
+    }
+    if (low.get(v) === index.get(v)) {
+      const component: string[] = [];
+      let w: string;
+      do {
+        w = stack.pop()!;
+        onStack.delete(w);
+        component.push(w);
+      } while (w !== v);
+      const selfLoop = edges.some(e => e.source === v && e.target === v);
+      if (component.length > 1 || selfLoop) component.forEach(id => result.add(id));
+    }
+  };
+
+  nodes.forEach(n => { if (!index.has(n.id)) strongConnect(n.id); });
+  return result;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, deflate, deflateRaw, inflate, inflateRaw } from '@/lib/deflate';
+
+const text = (s: string) => new TextEncoder().encode(s);
+
+async function compressWith(format: CompressionFormat, data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+describe('deflate', () => {
+  const samples = [
+    new Uint8Array(0),
+    text('a'),
+    text('abcabcabcabcabcabcabcabc'.repeat(50)),
+    Uint8Array.from({ length: 70000 }, (_, i) => (i * 7919) % 251),
+  ];
+
+  it('round-trips through inflate', () => {
+    for (const data of samples) {
+      expect(inflateRaw(deflateRaw(data))).toEqual(data);
+      expect(inflate(deflate(data))).toEqual(data);
+    }
+  });
+
+  it('compresses repetitive data', () => {
+    expect(deflate(samples[2]).length).toBeLessThan(100);
+  });
+
+  it('inflates dynamic Huffman streams from other compressors', async () => {
+    const data = text('The quick brown fox jumps over the lazy dog. '.repeat(200) + 'xyz'.repeat(300));
+    expect(inflate(await compressWith('deflate', data))).toEqual(data);
+    expect(inflateRaw(await compressWith('deflate-raw', samples[3]))).toEqual(samples[3]);
+  });
+
+  it('is readable by the platform decompressor', async () => {
+    const stream = new Blob([deflate(samples[2])]).stream().pipeThrough(new DecompressionStream('deflate'));
+    expect(new Uint8Array(await new Response(stream).arrayBuffer())).toEqual(samples[2]);
+  });
+
+  it('rejects corrupt streams', () => {
+    const data = deflate(samples[2]);
+    data[data.length - 1] ^= 1;
+    expect(() => inflate(data)).toThrow('Checksum mismatch');
+    expect(() => inflate(text('not zlib'))).toThrow('Not a zlib stream');
+    expect(() => inflateRaw(deflateRaw(samples[2]).subarray(0, 5))).toThrow();
+  });
+});
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(text('123456789'))).toBe(0xcbf43926);
+  });
+});
@@ -0,0 +1,321 @@
+// Small DEFLATE compressor and decompressor (RFC 1951) with zlib framing
+// (RFC 1950) and the CRC-32 used by PNG and ZIP. Plain TypeScript, so the
+// codecs built on it work in the browser, in workers and under Node alike.
+// Matches come from a hash chain and are written with the fixed Huffman
+// tables: a fair trade between size and code for generated textures. The
+// decompressor reads any valid stream.
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array, crc = 0): number {
+  let c = ~crc >>> 0;
+  for (let i = 0; i < data.length; i++) c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  return ~c >>> 0;
+}
+
+function adler32(data: Uint8Array): number {
+  let a = 1; let b = 0;
+  for (let i = 0; i < data.length; ) {
+    // sums stay below 2^32 for 5552 bytes between reductions
+    const end = Math.min(i + 5552, data.length);
+    for (; i < end; i++) { a += data[i]; b += a; }
+    a %= 65521; b %= 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+class BitWriter {
+  private buf = new Uint8Array(1 << 16);
+  private length = 0;
+  private bits = 0;
+  private count = 0;
+
+  private push(byte: number) {
+    if (this.length === this.buf.length) {
+      const next = new Uint8Array(this.buf.length * 2);
+      next.set(this.buf);
+      this.buf = next;
+    }
+    this.buf[this.length++] = byte;
+  }
+
+  // `n` bits of `value`, least significant first
+  write(value: number, n: number) {
+    this.bits |= value << this.count;
+    this.count += n;
+    while (this.count >= 8) {
+      this.push(this.bits & 0xff);
+      this.bits >>>= 8;
+      this.count -= 8;
+    }
+  }
+
+  // Huffman codes are defined most significant bit first
+  writeCode(code: number, n: number) {
+    let reversed = 0;
+    for (let i = 0; i < n; i++) reversed |= ((code >> i) & 1) << (n - 1 - i);
+    this.write(reversed, n);
+  }
+
+  bytes(): Uint8Array {
+    if (this.count > 0) this.push(this.bits & 0xff);
+    this.bits = 0;
+    this.count = 0;
+    return this.buf.slice(0, this.length);
+  }
+}
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+
+function writeLiteral(out: BitWriter, symbol: number) {
+  if (symbol < 144) out.writeCode(0x30 + symbol, 8);
+  else if (symbol < 256) out.writeCode(0x190 + symbol - 144, 9);
+  else if (symbol < 280) out.writeCode(symbol - 256, 7);
+  else out.writeCode(0xc0 + symbol - 280, 8);
+}
+
+function findBase(bases: number[], value: number): number {
+  let i = bases.length - 1;
+  while (bases[i] > value) i--;
+  return i;
+}
+
+function writeMatch(out: BitWriter, length: number, distance: number) {
+  const l = findBase(LENGTH_BASE, length);
+  writeLiteral(out, 257 + l);
+  if (LENGTH_EXTRA[l]) out.write(length - LENGTH_BASE[l], LENGTH_EXTRA[l]);
+  const d = findBase(DIST_BASE, distance);
+  out.writeCode(d, 5);
+  if (DIST_EXTRA[d]) out.write(distance - DIST_BASE[d], DIST_EXTRA[d]);
+}
+
+const WINDOW = 32768;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const MAX_CHAIN = 64;
+
+// Raw DEFLATE stream, as stored in ZIP entries
+export function deflateRaw(data: Uint8Array): Uint8Array {
+  const out = new BitWriter();
+  out.write(1, 1); // final block
+  out.write(1, 2); // fixed Huffman codes
+  const head = new Int32Array(1 << 15).fill(-1);
+  const prev = new Int32Array(WINDOW);
+  const hash = (i: number) => ((data[i] << 10) ^ (data[i + 1] << 5) ^ data[i + 2]) & 0x7fff;
+  const insert = (i: number) => {
+    if (i + MIN_MATCH > data.length) return;
+    const h = hash(i);
+    prev[i & (WINDOW - 1)] = head[h];
+    head[h] = i;
+  };
+
+  let i = 0;
+  while (i < data.length) {
+    let bestLength = 0; let bestDistance = 0;
+    if (i + MIN_MATCH <= data.length) {
+      const limit = Math.min(MAX_MATCH, data.length - i);
+      let candidate = head[hash(i)];
+      for (let chain = 0; candidate >= 0 && i - candidate <= WINDOW && chain < MAX_CHAIN; chain++) {
+        let length = 0;
+        while (length < limit && data[candidate + length] === data[i + length]) length++;
+        if (length > bestLength) {
+          bestLength = length;
+          bestDistance = i - candidate;
+          if (length === limit) break;
+        }
+        candidate = prev[candidate & (WINDOW - 1)];
+      }
+    }
+    if (bestLength >= MIN_MATCH) {
+      writeMatch(out, bestLength, bestDistance);
+      for (let k = 0; k < bestLength; k++) insert(i + k);
+      i += bestLength;
+    } else {
+      writeLiteral(out, data[i]);
+      insert(i);
+      i++;
+    }
+  }
+  writeLiteral(out, 256);
+  return out.bytes();
+}
+
+// zlib stream, as stored in PNG IDAT chunks
+export function deflate(data: Uint8Array): Uint8Array {
+  const body = deflateRaw(data);
+  const out = new Uint8Array(body.length + 6);
+  out[0] = 0x78; out[1] = 0x01;
+  out.set(body, 2);
+  const check = adler32(data);
+  out[out.length - 4] = check >>> 24; out[out.length - 3] = (check >>> 16) & 0xff;
+  out[out.length - 2] = (check >>> 8) & 0xff; out[out.length - 1] = check & 0xff;
+  return out;
+}
+
+// Decompression
+
+class BitReader {
+  private pos = 0;
+  private bits = 0;
+  private count = 0;
+
+  constructor(private data: Uint8Array) {}
+
+  read(n: number): number {
+    while (this.count < n) {
+      if (this.pos >= this.data.length) throw new Error('Compressed data ends early');
+      this.bits |= this.data[this.pos++] << this.count;
+      this.count += 8;
+    }
+    const value = this.bits & ((1 << n) - 1);
+    this.bits >>>= n;
+    this.count -= n;
+    return value;
+  }
+
+  // stored blocks start on a byte boundary
+  align() {
+    this.bits = 0;
+    this.count = 0;
+  }
+
+  bytes(n: number): Uint8Array {
+    if (this.pos + n > this.data.length) throw new Error('Compressed data ends early');
+    const out = this.data.subarray(this.pos, this.pos + n);
+    this.pos += n;
+    return out;
+  }
+}
+
+// Canonical Huffman code from code lengths: symbol counts per length and
+// the symbols sorted by code
+type Huffman = { counts: Uint16Array; symbols: Uint16Array };
+
+function huffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(16);
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+  counts[0] = 0;
+  const offsets = new Uint16Array(16);
+  for (let n = 1; n < 16; n++) offsets[n] = offsets[n - 1] + counts[n - 1];
+  const symbols = new Uint16Array(lengths.length);
+  for (let i = 0; i < lengths.length; i++) if (lengths[i]) symbols[offsets[lengths[i]]++] = i;
+  return { counts, symbols };
+}
+
+function readSymbol(input: BitReader, { counts, symbols }: Huffman): number {
+  let code = 0; let first = 0; let index = 0;
+  for (let n = 1; n < 16; n++) {
+    code |= input.read(1);
+    const count = counts[n];
+    if (code - first < count) return symbols[index + code - first];
+    index += count;
+    first = (first + count) << 1;
+    code <<= 1;
+  }
+  throw new Error('Invalid Huffman code');
+}
+
+const FIXED_LITERALS = huffman(Array.from({ length: 288 }, (_, i) => (i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8)));
+const FIXED_DISTANCES = huffman(new Array(30).fill(5));
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+function readDynamicTables(input: BitReader): [Huffman, Huffman] {
+  const literals = input.read(5) + 257;
+  const distances = input.read(5) + 1;
+  const codeLengths = new Uint8Array(19);
+  const count = input.read(4) + 4;
+  for (let i = 0; i < count; i++) codeLengths[CODE_LENGTH_ORDER[i]] = input.read(3);
+  const lengthCode = huffman(codeLengths);
+  const lengths = new Uint8Array(literals + distances);
+  for (let i = 0; i < lengths.length; ) {
+    const symbol = readSymbol(input, lengthCode);
+    if (symbol < 16) {
+      lengths[i++] = symbol;
+      continue;
+    }
+    if (symbol === 16 && i === 0) throw new Error('Invalid code lengths');
+    const value = symbol === 16 ? lengths[i - 1] : 0;
+    const repeat = symbol === 16 ? 3 + input.read(2) : symbol === 17 ? 3 + input.read(3) : 11 + input.read(7);
+    if (i + repeat > lengths.length) throw new Error('Invalid code lengths');
+    lengths.fill(value, i, i + repeat);
+    i += repeat;
+  }
+  return [huffman(lengths.subarray(0, literals)), huffman(lengths.subarray(literals))];
+}
+
+class ByteWriter {
+  buf = new Uint8Array(1 << 16);
+  length = 0;
+
+  reserve(n: number) {
+    if (this.length + n <= this.buf.length) return;
+    const next = new Uint8Array(Math.max(this.buf.length * 2, this.length + n));
+    next.set(this.buf.subarray(0, this.length));
+    this.buf = next;
+  }
+}
+
+// Raw DEFLATE stream with stored, fixed and dynamic Huffman blocks
+export function inflateRaw(data: Uint8Array): Uint8Array {
+  const input = new BitReader(data);
+  const out = new ByteWriter();
+  let final = 0;
+  while (!final) {
+    final = input.read(1);
+    const type = input.read(2);
+    if (type === 0) {
+      input.align();
+      const header = input.bytes(4);
+      const length = header[0] | (header[1] << 8);
+      if ((length ^ (header[2] | (header[3] << 8))) !== 0xffff) throw new Error('Invalid stored block');
+      out.reserve(length);
+      out.buf.set(input.bytes(length), out.length);
+      out.length += length;
+      continue;
+    }
+    if (type === 3) throw new Error('Invalid block type');
+    const [literals, distances] = type === 1 ? [FIXED_LITERALS, FIXED_DISTANCES] : readDynamicTables(input);
+    for (;;) {
+      const symbol = readSymbol(input, literals);
+      if (symbol === 256) break;
+      if (symbol < 256) {
+        out.reserve(1);
+        out.buf[out.length++] = symbol;
+        continue;
+      }
+      const l = symbol - 257;
+      if (l >= 29) throw new Error('Invalid length code');
+      const length = LENGTH_BASE[l] + input.read(LENGTH_EXTRA[l]);
+      const d = readSymbol(input, distances);
+      if (d >= 30) throw new Error('Invalid distance code');
+      const distance = DIST_BASE[d] + input.read(DIST_EXTRA[d]);
+      if (distance > out.length) throw new Error('Distance reaches before the start of the data');
+      out.reserve(length);
+      // byte by byte, since a match may overlap the bytes it produces
+      for (let k = 0; k < length; k++, out.length++) out.buf[out.length] = out.buf[out.length - distance];
+    }
+  }
+  return out.buf.slice(0, out.length);
+}
+
+// zlib stream, as stored in PNG IDAT chunks
+export function inflate(data: Uint8Array): Uint8Array {
+  if (data.length < 6 || (data[0] & 0x0f) !== 8 || ((data[0] << 8) | data[1]) % 31) throw new Error('Not a zlib stream');
+  if (data[1] & 0x20) throw new Error('Preset dictionaries are not supported');
+  const out = inflateRaw(data.subarray(2, data.length - 4));
+  const end = data.length - 4;
+  const check = ((data[end] << 24) | (data[end + 1] << 16) | (data[end + 2] << 8) | data[end + 3]) >>> 0;
+  if (check !== adler32(out)) throw new Error('Checksum mismatch');
+  return out;
+}
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_SETTINGS, GRAPH_DOCUMENT_FORMAT, GRAPH_DOCUMENT_VERSION, GraphDocumentError, backupAutosave, migrateGraphDocument, parseGraphDocument, readAutosave, serializeGraph, stringifyGraphDocument, writeAutosave } from '@/lib/document';
+
+const node = (id: string, data: Record<string, unknown> = {}) => ({ id, type: 'perlin', position: { x: 0, y: 0 }, data });
+
+describe('migrateGraphDocument', () => {
+  it('upgrades a bare v0 React Flow dump to the current version', () => {
+    const doc = migrateGraphDocument({
+      nodes: [node('1', { size: 128, scale: 8, preview: 'runtime', onChange: 'runtime' })],
+      edges: [{ id: 'e', source: '1', target: '1' }],
+    });
+    expect(doc.format).toBe(GRAPH_DOCUMENT_FORMAT);
+    expect(doc.version).toBe(GRAPH_DOCUMENT_VERSION);
+    expect(doc.settings).toEqual(DEFAULT_SETTINGS);
+    expect(doc.nodes[0].data).toEqual({ scale: 8, customSize: true, width: 128, height: 128 });
+  });
+
+  it('keeps v2 settings and adds the timeline in v3', () => {
+    const doc = migrateGraphDocument({ format: GRAPH_DOCUMENT_FORMAT, version: 2, settings: { width: 640, height: 480 }, nodes: [], edges: [] });
+    expect(doc.settings).toEqual({ width: 640, height: 480, fps: DEFAULT_SETTINGS.fps, frames: DEFAULT_SETTINGS.frames });
+  });
+
+  it('rejects other formats, newer versions and broken graphs', () => {
+    expect(() => migrateGraphDocument({ format: 'other', nodes: [], edges: [] })).toThrow(GraphDocumentError);
+    expect(() => migrateGraphDocument({ format: GRAPH_DOCUMENT_FORMAT, version: GRAPH_DOCUMENT_VERSION + 1, nodes: [], edges: [] })).toThrow(/newer/);
+    expect(() => migrateGraphDocument({ nodes: [node('1'), node('1')], edges: [] })).toThrow(/Duplicate node id/);
+    expect(() => migrateGraphDocument({ nodes: [node('1')], edges: [{ id: 'e', source: '1', target: '2' }] })).toThrow(/missing node/);
+  });
+});
+
+describe('parseGraphDocument', () => {
+  it('round-trips a serialized graph without runtime fields', () => {
+    const settings = { ...DEFAULT_SETTINGS, width: 320 };
+    const doc = serializeGraph([{ ...node('1', { scale: 4, onChange: () => {} }), type: 'perlin' }], [], settings);
+    expect(doc.nodes[0].data).toEqual({ scale: 4 });
+    expect(parseGraphDocument(stringifyGraphDocument(doc))).toEqual(doc);
+  });
+
+  it('drops edges whose ends are missing', () => {
+    const doc = serializeGraph([node('1'), node('2')], [{ id: 'a', source: '1', target: '2' }, { id: 'b', source: '2', target: 'gone' }]);
+    expect(doc.edges.map(e => e.id)).toEqual(['a']);
+    expect(() => migrateGraphDocument(doc)).not.toThrow();
+  });
+
+  it('reports invalid JSON', () => {
+    expect(() => parseGraphDocument('{')).toThrow('File is not valid JSON');
+  });
+});
+
+describe('autosave', () => {
+  const storage = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => { storage.set(key, value); },
+  });
+  afterEach(() => storage.clear());
+
+  it('restores what was written', () => {
+    expect(readAutosave()).toBeNull();
+    const doc = serializeGraph([node('1', { scale: 4 })], []);
+    writeAutosave(doc);
+    expect(readAutosave()).toEqual(doc);
+  });
+
+  it('reports an autosave that does not open and keeps a copy of it', () => {
+    const broken = JSON.stringify({ nodes: [node('1'), node('1')], edges: [] });
+    storage.set('agentic-node-editor:autosave', broken);
+    expect(() => readAutosave()).toThrow(/Duplicate node id/);
+    expect(backupAutosave()).toBe(true);
+    writeAutosave(serializeGraph([], []));
+    expect(storage.get('agentic-node-editor:autosave-backup')).toBe(broken);
+  });
+});
@@ -0,0 +1,200 @@
+// Versioned JSON document format for node graphs
+
+export const GRAPH_DOCUMENT_FORMAT = 'agentic-node-graph';
+export const GRAPH_DOCUMENT_VERSION = 3;
+
+export type DocumentNode = {
+  id: string;
+  type: string;
+  position: { x: number; y: number };
+  data: Record<string, unknown>;
+};
+
+export type DocumentEdge = {
+  id: string;
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+  targetHandle?: string | null;
+};
+
+// Document-wide settings
+export type DocumentSettings = {
+  // default resolution for generators that don't set their own size
+  width: number;
+  height: number;
+  // animation timeline: playback rate and length in frames
+  fps: number;
+  frames: number;
+};
+
+export const DEFAULT_SETTINGS: DocumentSettings = { width: 256, height: 256, fps: 24, frames: 48 };
+
+export type GraphDocument = {
+  format: typeof GRAPH_DOCUMENT_FORMAT;
+  version: number;
+  settings: DocumentSettings;
+  nodes: DocumentNode[];
+  edges: DocumentEdge[];
+};
+
+export class GraphDocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GraphDocumentError';
+  }
+}
+
+// Fields that only exist while the editor is running and never get persisted
+const RUNTIME_FIELDS = new Set(['preview', 'onChange']);
+
+function stripRuntimeFields(data: Record<string, unknown> | undefined): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data ?? {})) {
+    if (RUNTIME_FIELDS.has(key) || typeof value === 'function') continue;
+    out[key] = value;
+  }
+  return out;
+}
+
+type NodeLike = { id: string; type?: string; position: { x: number; y: number }; data?: any };
+type EdgeLike = { id: string; source: string; target: string; sourceHandle?: string | null; targetHandle?: string | null };
+
+// Edges whose ends are missing are dropped, so a serialized graph always
+// passes validation
+export function serializeGraph(nodes: NodeLike[], edges: EdgeLike[], settings: DocumentSettings = DEFAULT_SETTINGS): GraphDocument {
+  const ids = new Set(nodes.map(n => n.id));
+  return {
+    format: GRAPH_DOCUMENT_FORMAT,
+    version: GRAPH_DOCUMENT_VERSION,
+    settings: { ...settings },
+    nodes: nodes.map(n => ({
+      id: n.id,
+      type: n.type ?? 'default',
+      position: { x: n.position.x, y: n.position.y },
+      data: stripRuntimeFields(n.data),
+    })),
+    edges: edges.filter(e => ids.has(e.source) && ids.has(e.target)).map(e => ({
+      id: e.id,
+      source: e.source,
+      target: e.target,
+      sourceHandle: e.sourceHandle ?? null,
+      targetHandle: e.targetHandle ?? null,
+    })),
+  };
+}
+
+// Migrations upgrade a raw document from version N to N + 1. When node
+// parameters change, bump GRAPH_DOCUMENT_VERSION and add a step here so that
+// files saved by older builds keep opening.
+const migrations: Record<number, (doc: any) => any> = {
+  // v0: a bare React Flow `{ nodes, edges }` dump without format/version
+  0: (doc) => ({
+    format: GRAPH_DOCUMENT_FORMAT,
+    version: 1,
+    nodes: (doc.nodes ?? []).map((n: any) => ({ id: n.id, type: n.type, position: n.position, data: stripRuntimeFields(n.data) })),
+    edges: doc.edges ?? [],
+  }),
+  // v1 -> v2: square `size` on generators becomes width/height, and the
+  // document gains a default resolution. Old nodes keep their exact size.
+  1: (doc) => ({
+    ...doc,
+    version: 2,
+    settings: { ...DEFAULT_SETTINGS },
+    nodes: doc.nodes.map((n: any) => {
+      if (!n.data || typeof n.data.size !== 'number') return n;
+      const { size, ...data } = n.data;
+      return { ...n, data: { ...data, customSize: true, width: size, height: size } };
+    }),
+  }),
+  // v2 -> v3: settings gain the animation timeline
+  2: (doc) => ({
+    ...doc,
+    version: 3,
+    settings: { fps: DEFAULT_SETTINGS.fps, frames: DEFAULT_SETTINGS.frames, ...doc.settings },
+  }),
+};
+
+export function migrateGraphDocument(raw: unknown): GraphDocument {
+  if (!raw || typeof raw !== 'object') throw new GraphDocumentError('Document is not a JSON object');
+  let doc: any = raw;
+  if (doc.format !== undefined && doc.format !== GRAPH_DOCUMENT_FORMAT) throw new GraphDocumentError(`Unsupported document format "${doc.format}"`);
+  let version = typeof doc.version === 'number' ? doc.version : 0;
+  if (version > GRAPH_DOCUMENT_VERSION) throw new GraphDocumentError(`Document version ${version} is newer than this editor supports (${GRAPH_DOCUMENT_VERSION})`);
+  while (version < GRAPH_DOCUMENT_VERSION) {
+    const step = migrations[version];
+    if (!step) throw new GraphDocumentError(`No migration from document version ${version}`);
+    doc = step(doc);
+    version = doc.version;
+  }
+  validateGraphDocument(doc);
+  return doc as GraphDocument;
+}
+
+function validateGraphDocument(doc: any) {
+  if (!Array.isArray(doc.nodes) || !Array.isArray(doc.edges)) throw new GraphDocumentError('Document must contain "nodes" and "edges" arrays');
+  const { width, height, fps, frames } = doc.settings ?? {};
+  if (!(width >= 1 && height >= 1)) throw new GraphDocumentError('Document settings need a positive width and height');
+  if (!(fps >= 1 && frames >= 1)) throw new GraphDocumentError('Document settings need a positive frame rate and frame count');
+  const ids = new Set<string>();
+  for (const n of doc.nodes) {
+    if (typeof n?.id !== 'string' || typeof n.type !== 'string') throw new GraphDocumentError('Every node needs a string "id" and "type"');
+    if (typeof n.position?.x !== 'number' || typeof n.position?.y !== 'number') throw new GraphDocumentError(`Node ${n.id} has an invalid position`);
+    if (ids.has(n.id)) throw new GraphDocumentError(`Duplicate node id ${n.id}`);
+    ids.add(n.id);
+    n.data ??= {};
+  }
+  for (const e of doc.edges) {
+    if (typeof e?.id !== 'string' || !ids.has(e.source) || !ids.has(e.target)) throw new GraphDocumentError(`Edge ${e?.id ?? '?'} references a missing node`);
+  }
+}
+
+export function parseGraphDocument(text: string): GraphDocument {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new GraphDocumentError('File is not valid JSON');
+  }
+  return migrateGraphDocument(raw);
+}
+
+export function stringifyGraphDocument(doc: GraphDocument): string {
+  return JSON.stringify(doc, null, 2);
+}
+
+// Autosave to localStorage
+const AUTOSAVE_KEY = 'agentic-node-editor:autosave';
+const AUTOSAVE_BACKUP_KEY = 'agentic-node-editor:autosave-backup';
+
+export function writeAutosave(doc: GraphDocument) {
+  try {
+    localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(doc));
+  } catch (e) {
+    // quota exceeded or storage disabled; nothing we can do
+  }
+}
+
+// The autosaved graph, or null when there is none. Throws when there is one
+// that doesn't open.
+export function readAutosave(): GraphDocument | null {
+  let text: string | null;
+  try {
+    text = localStorage.getItem(AUTOSAVE_KEY);
+  } catch (e) {
+    return null;
+  }
+  return text ? parseGraphDocument(text) : null;
+}
+
+// Copies an autosave that failed to restore aside, before the next autosave
+// replaces it; false when storage refused the copy
+export function backupAutosave(): boolean {
+  try {
+    const text = localStorage.getItem(AUTOSAVE_KEY);
+    if (text) localStorage.setItem(AUTOSAVE_BACKUP_KEY, text);
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
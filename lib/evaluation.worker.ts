@@ -0,0 +1,103 @@
+/// <reference lib="webworker" />
+import { GraphDocument } from '@/lib/document';
+import { RenderTask, RenderedImage, renderTask } from '@/lib/export';
+import { EvalGraph, GraphEvaluator, GraphOutputs, GraphStatus, NodeStatus, upstreamGraph } from '@/lib/graph';
+import { decodeImageData } from '@/lib/image';
+
+// Messages exchanged with lib/evaluationClient.ts. `focus` lists nodes that
+// are computed again at full resolution once a proxy run is done. Render jobs
+// (exports) number their own jobs and run until finished or cancelled.
+export type EvaluationRequest =
+  | { type: 'evaluate'; jobId: number; graph: EvalGraph; focus: string[] }
+  | { type: 'render'; jobId: number; doc: GraphDocument; tasks: RenderTask[] }
+  | { type: 'cancel'; jobId: number };
+export type EvaluationResponse =
+  | { type: 'plan'; jobId: number; dirty: string[] }
+  | { type: 'result'; jobId: number; nodeId: string; image: ImageData | null; status: NodeStatus }
+  | { type: 'done'; jobId: number; status: GraphStatus }
+  | { type: 'full'; jobId: number; outputs: GraphOutputs }
+  | { type: 'rendered'; jobId: number; index: number; result: RenderedImage }
+  | { type: 'finished'; jobId: number; cancelled: boolean; error?: string };
+
+const scope = self as unknown as DedicatedWorkerGlobalScope;
+const evaluator = new GraphEvaluator({ decodeImage: decodeImageData });
+// full-resolution results of the focused nodes and their inputs. Render jobs
+// get an evaluator each, so an export neither evicts these nor delays them.
+const focusEvaluator = new GraphEvaluator({ decodeImage: decodeImageData });
+let latestJob = 0;
+// render jobs in progress; a cancel for any other job is ignored
+const runningRenders = new Set<number>();
+const cancelledRenders = new Set<number>();
+
+// Focus runs take turns, so a new one never interleaves with the run it
+// cancels inside one evaluation
+let focusQueue: Promise<unknown> = Promise.resolve();
+function withFocusEvaluator<T>(work: () => Promise<T>): Promise<T> {
+  const run = focusQueue.then(work);
+  focusQueue = run.catch(() => undefined);
+  return run;
+}
+
+// the evaluator keeps its own copy for the cache; the copy we send is
+// transferred rather than cloned
+const copyImage = (img: ImageData | null) => (img ? new ImageData(new Uint8ClampedArray(img.data), img.width, img.height) : null);
+
+const post = (msg: EvaluationResponse, transfer: Transferable[] = []) => scope.postMessage(msg, transfer);
+
+async function evaluate(jobId: number, graph: EvalGraph, focus: string[]) {
+  latestJob = jobId;
+  const isCancelled = () => latestJob !== jobId;
+
+  const result = await evaluator.evaluate(graph, {
+    isCancelled,
+    onPlan: dirty => post({ type: 'plan', jobId, dirty }),
+    onResult: (nodeId, out, status) => {
+      const image = copyImage(out);
+      post({ type: 'result', jobId, nodeId, image, status }, image ? [image.data.buffer] : []);
+    },
+  });
+  if (!result) return;
+  post({ type: 'done', jobId, status: result.status });
+
+  const outputs: GraphOutputs = {};
+  if (focus.length && graph.scale !== 1) {
+    // the rest of the graph stays cached for when the focus moves to it
+    const retain = new Set(graph.nodes.map(n => n.id));
+    const full = await withFocusEvaluator(() => focusEvaluator.evaluate(upstreamGraph({ ...graph, scale: 1 }, focus), { isCancelled, retain }));
+    if (!full) return;
+    for (const id of focus) {
+      if (id in full.outputs) outputs[id] = copyImage(full.outputs[id]);
+    }
+  }
+  post({ type: 'full', jobId, outputs }, Object.values(outputs).flatMap(img => (img ? [img.data.buffer] : [])));
+}
+
+async function render(jobId: number, doc: GraphDocument, tasks: RenderTask[]) {
+  const isCancelled = () => cancelledRenders.has(jobId);
+  runningRenders.add(jobId);
+  let error: string | undefined;
+  try {
+    const renderEvaluator = new GraphEvaluator({ decodeImage: decodeImageData });
+    for (const [index, task] of tasks.entries()) {
+      if (isCancelled()) break;
+      const rendered = await renderTask(renderEvaluator, doc, task, isCancelled);
+      if (!rendered) break;
+      const image = copyImage(rendered.image);
+      post({ type: 'rendered', jobId, index, result: { ...rendered, image } }, image ? [image.data.buffer] : []);
+    }
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+  }
+  post({ type: 'finished', jobId, cancelled: isCancelled(), error });
+  runningRenders.delete(jobId);
+  cancelledRenders.delete(jobId);
+}
+
+scope.onmessage = (e: MessageEvent<EvaluationRequest>) => {
+  const msg = e.data;
+  switch (msg.type) {
+    case 'evaluate': evaluate(msg.jobId, msg.graph, msg.focus); break;
+    case 'render': render(msg.jobId, msg.doc, msg.tasks); break;
+    case 'cancel': if (runningRenders.has(msg.jobId)) cancelledRenders.add(msg.jobId); break;
+  }
+};
@@ -0,0 +1,99 @@
+import type { GraphDocument } from '@/lib/document';
+import type { EvaluationRequest, EvaluationResponse } from '@/lib/evaluation.worker';
+import type { RenderTask, RenderedImage } from '@/lib/export';
+import type { EvalGraph, GraphOutputs, GraphStatus, NodeStatus } from '@/lib/graph';
+
+export type EvaluationListener = {
+  onPlan: (dirty: string[]) => void;
+  onResult: (nodeId: string, image: ImageData | null, status: NodeStatus) => void;
+  // final status of every node in the graph
+  onDone: (status: GraphStatus) => void;
+  // full-resolution images of the focused nodes, after `onDone`
+  onFullResolution: (outputs: GraphOutputs) => void;
+};
+
+// A running render job. `images` resolves with one result per task, or null
+// once the job is cancelled.
+export type RenderJob = { images: Promise<RenderedImage[] | null>; cancel: () => void };
+
+type PendingRender = {
+  results: RenderedImage[];
+  onImage?: (index: number, result: RenderedImage) => void;
+  resolve: (results: RenderedImage[] | null) => void;
+  reject: (error: Error) => void;
+};
+
+// Main-thread handle on the evaluation worker. Every `evaluate` call
+// supersedes the previous one: the worker abandons the stale job between
+// nodes. Render jobs run to the end unless cancelled.
+export class EvaluationClient {
+  private worker: Worker;
+  private jobId = 0;
+  private renderId = 0;
+  private renders = new Map<number, PendingRender>();
+
+  constructor(private listener: EvaluationListener) {
+    this.worker = new Worker(new URL('./evaluation.worker.ts', import.meta.url));
+    this.worker.onmessage = (e: MessageEvent<EvaluationResponse>) => {
+      const msg = e.data;
+      if (msg.type === 'rendered' || msg.type === 'finished') {
+        this.onRenderMessage(msg);
+        return;
+      }
+      // results from a superseded job are still correct for the parameters
+      // they were computed with (and the worker has cached them), so they
+      // are applied; only the stale job's bookkeeping is dropped
+      if (msg.type !== 'result' && msg.jobId !== this.jobId) return;
+      switch (msg.type) {
+        case 'plan': this.listener.onPlan(msg.dirty); break;
+        case 'result': this.listener.onResult(msg.nodeId, msg.image, msg.status); break;
+        case 'done': this.listener.onDone(msg.status); break;
+        case 'full': this.listener.onFullResolution(msg.outputs); break;
+      }
+    };
+  }
+
+  // `focus` nodes are also computed at full resolution when `graph` is a proxy
+  evaluate(graph: EvalGraph, focus: string[] = []) {
+    const request: EvaluationRequest = { type: 'evaluate', jobId: ++this.jobId, graph, focus };
+    this.worker.postMessage(request);
+  }
+
+  // Renders `tasks` at full resolution, after any render job already queued.
+  // `onImage` sees every image as it arrives.
+  render(doc: GraphDocument, tasks: RenderTask[], onImage?: (index: number, result: RenderedImage) => void): RenderJob {
+    const jobId = ++this.renderId;
+    const images = new Promise<RenderedImage[] | null>((resolve, reject) => {
+      this.renders.set(jobId, { results: [], onImage, resolve, reject });
+    });
+    const request: EvaluationRequest = { type: 'render', jobId, doc, tasks };
+    this.worker.postMessage(request);
+    return {
+      images,
+      cancel: () => {
+        if (!this.renders.has(jobId)) return;
+        const cancel: EvaluationRequest = { type: 'cancel', jobId };
+        this.worker.postMessage(cancel);
+      },
+    };
+  }
+
+  private onRenderMessage(msg: Extract<EvaluationResponse, { type: 'rendered' | 'finished' }>) {
+    const job = this.renders.get(msg.jobId);
+    if (!job) return;
+    if (msg.type === 'rendered') {
+      job.results[msg.index] = msg.result;
+      job.onImage?.(msg.index, msg.result);
+      return;
+    }
+    this.renders.delete(msg.jobId);
+    if (msg.error) job.reject(new Error(msg.error));
+    else job.resolve(msg.cancelled ? null : job.results);
+  }
+
+  dispose() {
+    this.worker.terminate();
+    this.renders.forEach(job => job.resolve(null));
+    this.renders.clear();
+  }
+}
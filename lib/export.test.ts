@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, GRAPH_DOCUMENT_FORMAT, GRAPH_DOCUMENT_VERSION, GraphDocument } from '@/lib/document';
+import { RenderedImage, exportImages, exportOutputs, frameFileName, frameTasks, outputTasks, renderTask } from '@/lib/export';
+import { GraphEvaluator, toEvalGraph } from '@/lib/graph';
+import '@/lib/nodes';
+
+const at = { x: 0, y: 0 };
+const doc: GraphDocument = {
+  format: GRAPH_DOCUMENT_FORMAT,
+  version: GRAPH_DOCUMENT_VERSION,
+  settings: { ...DEFAULT_SETTINGS, width: 16, height: 16, frames: 3 },
+  nodes: [
+    { id: '1', type: 'perlin', position: at, data: { scale: 4, seed: 1 } },
+    { id: '2', type: 'display', position: at, data: { name: 'Base Color' } },
+    { id: '3', type: 'display', position: at, data: { name: 'base color', format: 'jpeg', customExportSize: true, exportWidth: 8, exportHeight: 4 } },
+    { id: '4', type: 'display', position: at, data: { name: 'a/b' } },
+  ],
+  edges: [
+    { id: 'a', source: '1', target: '2', targetHandle: 'in' },
+    { id: 'b', source: '1', target: '3', targetHandle: 'in' },
+  ],
+};
+const outputs = exportOutputs(toEvalGraph(doc.nodes, doc.edges, doc.settings));
+
+describe('exportOutputs', () => {
+  it('gives every display node a unique, safe file name', () => {
+    expect(outputs.map(o => o.fileName)).toEqual(['Base Color', 'base color_2', 'a_b']);
+    expect(outputs[1]).toMatchObject({ format: 'jpeg', size: { width: 8, height: 4 } });
+  });
+});
+
+describe('render tasks', () => {
+  it('cover every output at one frame, or one output over the timeline', () => {
+    expect(outputTasks(outputs.slice(0, 2), 2)).toEqual([{ output: '2', frame: 2, size: null }, { output: '3', frame: 2, size: { width: 8, height: 4 } }]);
+    expect(frameTasks(outputs[0], 3).map(t => t.frame)).toEqual([0, 1, 2]);
+    expect(frameFileName('anim', 7, 3, 'png')).toBe('anim_0007.png');
+  });
+
+  it('render at the export size and report outputs without an image', async () => {
+    const evaluator = new GraphEvaluator();
+    const results: RenderedImage[] = [];
+    for (const task of outputTasks(outputs, 0)) results.push((await renderTask(evaluator, doc, task, () => false))!);
+    expect(results.map(r => r.image && [r.image.width, r.image.height])).toEqual([[16, 16], [8, 4], null]);
+    expect(() => exportImages(results, outputs)).toThrow(/^a\/b: /);
+    expect(exportImages(results.slice(0, 2), outputs)).toHaveLength(2);
+  });
+
+  it('stop when cancelled', async () => {
+    expect(await renderTask(new GraphEvaluator(), doc, outputTasks(outputs, 0)[0], () => true)).toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+import { GraphDocument } from '@/lib/document';
+import { EvalGraph, GraphEvaluator, toEvalGraph } from '@/lib/graph';
+import { resizeImage } from '@/lib/image';
+import { Resolution, defaultParams, getNodeDefinition } from '@/lib/nodes';
+import type { DisplayParams } from '@/lib/nodes/builtin';
+import { encodePng } from '@/lib/png';
+import { ParamChange, withChanges } from '@/lib/variations';
+
+// Exports: which display nodes there are, the render jobs that produce their
+// images in the evaluation worker, and encoding and packaging of the results
+
+export type ImageFormat = DisplayParams['format'];
+
+const MIME_TYPES: Record<ImageFormat, string> = { png: 'image/png', jpeg: 'image/jpeg', webp: 'image/webp' };
+const EXTENSIONS: Record<ImageFormat, string> = { png: 'png', jpeg: 'jpg', webp: 'webp' };
+
+// A display node as an export target
+export type ExportOutput = {
+  id: string;
+  name: string;
+  // unique among the outputs of one graph, without extension
+  fileName: string;
+  format: ImageFormat;
+  quality: number;
+  // export size; the document resolution when null
+  size: Resolution | null;
+};
+
+function safeFileName(name: string): string {
+  return name.replace(/[\\/:*?"<>|\x00-\x1f]+/g, '_').trim() || 'image';
+}
+
+// Every display node of an expanded graph, in graph order
+export function exportOutputs(graph: EvalGraph): ExportOutput[] {
+  const used = new Set<string>();
+  return graph.nodes.filter(n => n.type === 'display').map(n => {
+    const p: DisplayParams = { ...defaultParams(getNodeDefinition(n.type)!), ...n.data };
+    const base = safeFileName(p.name);
+    let fileName = base;
+    for (let i = 2; used.has(fileName.toLowerCase()); i++) fileName = `${base}_${i}`;
+    used.add(fileName.toLowerCase());
+    const size = p.customExportSize ? { width: Math.round(p.exportWidth), height: Math.round(p.exportHeight) } : null;
+    return { id: n.id, name: p.name, fileName, format: p.format, quality: p.quality, size };
+  });
+}
+
+export function outputFileName(output: ExportOutput): string {
+  return `${output.fileName}.${EXTENSIONS[output.format]}`;
+}
+
+// One image for the evaluation worker to render: an output at one frame, at
+// an export size or the document resolution, with parameters of expanded node
+// ids changed for variations. `scale` is a proxy factor for thumbnails.
+export type RenderTask = { output: string; frame: number; size?: Resolution | null; scale?: number; changes?: ParamChange[] };
+
+export type RenderedImage = { image: ImageData | null; error?: string };
+
+// Renders a task with the worker's evaluator. Generators that inherit the
+// document resolution follow the task's size; anything else is resized to
+// fit. Null when cancelled.
+export async function renderTask(evaluator: GraphEvaluator, doc: GraphDocument, task: RenderTask, isCancelled: () => boolean): Promise<RenderedImage | null> {
+  const graph = toEvalGraph(doc.nodes, doc.edges, task.size ?? doc.settings, task.frame, task.scale);
+  const result = await evaluator.evaluate(task.changes ? withChanges(graph, task.changes) : graph, { isCancelled });
+  if (!result) return null;
+  const image = result.outputs[task.output];
+  if (!image) return { image: null, error: result.status[task.output]?.message ?? 'No image' };
+  const { size } = task;
+  return { image: size && (image.width !== size.width || image.height !== size.height) ? resizeImage(image, size.width, size.height) : image };
+}
+
+// Several outputs at one frame; outputs at the same size share their
+// upstream work through the evaluator's cache
+export function outputTasks(outputs: ExportOutput[], frame: number): RenderTask[] {
+  return outputs.map(o => ({ output: o.id, frame, size: o.size }));
+}
+
+// One output over the whole timeline; nodes without animation upstream are
+// computed once
+export function frameTasks(output: ExportOutput, frames: number): RenderTask[] {
+  return Array.from({ length: frames }, (_, frame) => ({ output: output.id, frame, size: output.size }));
+}
+
+// Images of finished tasks, one per output, or an error naming the first
+// output that has none
+export function exportImages(results: RenderedImage[], outputs: ExportOutput[]): ImageData[] {
+  return results.map((r, i) => {
+    if (!r.image) throw new Error(`${outputs[i].name}: ${r.error ?? 'no image'}`);
+    return r.image;
+  });
+}
+
+// PNG is encoded here; JPEG and WebP use the browser's encoders
+export async function encodeImage(img: ImageData, format: ImageFormat, quality: number): Promise<Uint8Array> {
+  if (format === 'png') return encodePng(img);
+  const canvas = new OffscreenCanvas(img.width, img.height);
+  canvas.getContext('2d')!.putImageData(img, 0, 0);
+  const blob = await canvas.convertToBlob({ type: MIME_TYPES[format], quality: quality / 100 });
+  // browsers without an encoder for the type silently return a PNG
+  if (blob.type !== MIME_TYPES[format]) throw new Error(`This browser can't encode ${format.toUpperCase()} images`);
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+export function mimeType(format: ImageFormat): string {
+  return MIME_TYPES[format];
+}
+
+// Describes a batch export: which file came from which node, and every
+// node's parameters as evaluated, next to the document itself
+export function exportManifest(doc: GraphDocument, frame: number, outputs: ExportOutput[], images: ImageData[]) {
+  return {
+    format: 'agentic-node-export',
+    version: 1,
+    created: new Date().toISOString(),
+    frame,
+    outputs: outputs.map((o, i) => ({
+      file: outputFileName(o),
+      node: o.id,
+      name: o.name,
+      format: o.format,
+      ...(o.format !== 'png' && { quality: o.quality }),
+      width: images[i].width,
+      height: images[i].height,
+    })),
+    parameters: Object.fromEntries(toEvalGraph(doc.nodes, doc.edges, doc.settings, frame).nodes.map(n => [n.id, { type: n.type, ...n.data }])),
+    graph: doc,
+  };
+}
+
+export function frameFileName(base: string, frame: number, total: number, extension: string): string {
+  return `${base}_${String(frame).padStart(Math.max(4, String(total - 1).length), '0')}.${extension}`;
+}
+
+export function downloadBytes(bytes: Uint8Array, fileName: string, type: string) {
+  const a = document.createElement('a');
+  a.href = URL.createObjectURL(new Blob([bytes], { type }));
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(a.href);
+}
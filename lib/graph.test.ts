@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { EvalEdge, EvalNode, GraphEvaluator, toEvalGraph, upstreamGraph } from '@/lib/graph';
+import '@/lib/nodes';
+
+const resolution = { width: 16, height: 16 };
+
+function graph(nodes: EvalNode[], edges: EvalEdge[]) {
+  return toEvalGraph(nodes, edges, resolution);
+}
+
+const base: EvalNode[] = [
+  { id: 'color', type: 'createImage', data: { color: '#ff0000', customSize: false } },
+  { id: 'noise', type: 'perlin', data: { scale: 4, seed: 1, customSize: false } },
+  { id: 'mix', type: 'combine', data: { mode: 'multiply', composite: 'over', opacity: 1, sizing: 'resize-to-a' } },
+];
+const wires: EvalEdge[] = [
+  { source: 'color', target: 'mix', targetHandle: 'a' },
+  { source: 'noise', target: 'mix', targetHandle: 'b' },
+];
+
+async function dirtyNodes(evaluator: GraphEvaluator, nodes: EvalNode[], edges: EvalEdge[] = wires) {
+  let dirty: string[] = [];
+  await evaluator.evaluate(graph(nodes, edges), { onPlan: ids => { dirty = ids; } });
+  return dirty;
+}
+
+describe('GraphEvaluator', () => {
+  it('evaluates everything once, then only what is downstream of a change', async () => {
+    const evaluator = new GraphEvaluator();
+    expect(await dirtyNodes(evaluator, base)).toEqual(['color', 'noise', 'mix']);
+    expect(await dirtyNodes(evaluator, base)).toEqual([]);
+    const reseeded = base.map(n => (n.id === 'noise' ? { ...n, data: { ...n.data, seed: 2 } } : n));
+    expect(await dirtyNodes(evaluator, reseeded)).toEqual(['noise', 'mix']);
+  });
+
+  it('recomputes a node when its wiring changes', async () => {
+    const evaluator = new GraphEvaluator();
+    await dirtyNodes(evaluator, base);
+    expect(await dirtyNodes(evaluator, base, [wires[0]])).toEqual(['mix']);
+  });
+
+  it('reports missing inputs and cycles', async () => {
+    const result = await new GraphEvaluator().evaluate(graph(
+      [...base, { id: 'blur', type: 'gaussianBlur', data: { radius: 1, edge: 'clamp' } }, { id: 'loop', type: 'invert', data: {} }],
+      [...wires, { source: 'loop', target: 'loop', targetHandle: 'in' }],
+    ));
+    expect(result!.status.mix.level).toBe('ok');
+    expect(result!.outputs.mix).toMatchObject({ width: 16, height: 16 });
+    expect(result!.status.blur.level).toBe('missing-input');
+    expect(result!.status.loop).toEqual({ level: 'error', message: 'Part of a cycle' });
+  });
+
+  it('abandons a cancelled run and resumes from its cache', async () => {
+    const evaluator = new GraphEvaluator();
+    let results = 0;
+    const cancelled = await evaluator.evaluate(graph(base, wires), { onResult: () => { results++; }, isCancelled: () => results >= 1 });
+    expect(cancelled).toBeNull();
+    expect(await dirtyNodes(evaluator, base)).toEqual(['noise', 'mix']);
+  });
+
+  it('keeps retained results while evaluating part of the graph', async () => {
+    const evaluator = new GraphEvaluator();
+    await dirtyNodes(evaluator, base);
+    await evaluator.evaluate(upstreamGraph(graph(base, wires), ['color']), { retain: new Set(['noise', 'mix']) });
+    expect(await dirtyNodes(evaluator, base)).toEqual([]);
+    await evaluator.evaluate(upstreamGraph(graph(base, wires), ['color']));
+    expect(await dirtyNodes(evaluator, base)).toEqual(['noise', 'mix']);
+  });
+});
+
+describe('upstreamGraph', () => {
+  it('keeps the given nodes and everything feeding them', () => {
+    const sub = upstreamGraph(graph([...base, { id: 'other', type: 'perlin', data: {} }], wires), ['mix']);
+    expect(sub.nodes.map(n => n.id)).toEqual(['color', 'noise', 'mix']);
+    expect(sub.edges).toHaveLength(2);
+  });
+});
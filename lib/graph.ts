@@ -0,0 +1,212 @@
+import { sampleParams } from '@/lib/animation';
+import { findCycleNodes } from '@/lib/connections';
+import { expandGroups } from '@/lib/groups';
+import { EvalContext, NodeInputs, NodeOutputs, PortValue, Resolution, getNodeDefinition, nodePorts, previewPort } from '@/lib/nodes';
+
+export type EvalNode = { id: string; type?: string; data: any };
+export type EvalEdge = { source: string; target: string; sourceHandle?: string | null; targetHandle?: string | null };
+// Preview image of every node, keyed by node id
+export type GraphOutputs = Record<string, ImageData | null>;
+
+// Outcome of evaluating one node. `missing-input` covers unconnected required
+// inputs as well as inputs whose upstream node failed.
+export type NodeStatusLevel = 'ok' | 'warning' | 'error' | 'missing-input';
+export type NodeStatus = { level: NodeStatusLevel; message?: string };
+export type GraphStatus = Record<string, NodeStatus>;
+export type EvaluationResult = { outputs: GraphOutputs; status: GraphStatus };
+
+const OK: NodeStatus = { level: 'ok' };
+
+export function isFailure(status: NodeStatus | undefined) {
+  return status?.level === 'error' || status?.level === 'missing-input';
+}
+
+type InputLink = { value: PortValue; source: string; status: NodeStatus } | null;
+
+type HostContext = Omit<EvalContext, 'warn'>;
+
+async function evaluateNode(node: EvalNode, input: (port: string) => InputLink, host: HostContext): Promise<{ values: NodeOutputs; status: NodeStatus }> {
+  const def = getNodeDefinition(node.type);
+  if (!def) return { values: {}, status: { level: 'error', message: `Unknown node type "${node.type}"` } };
+  const inputs: NodeInputs = {};
+  const unconnected: string[] = [];
+  for (const port of nodePorts(def, node.data).inputs) {
+    const link = input(port.id);
+    if (!link && !port.optional) unconnected.push(port.label);
+    if (link && isFailure(link.status)) return { values: {}, status: { level: 'missing-input', message: `Input ${port.label}: upstream node ${link.source} failed` } };
+    inputs[port.id] = link?.value ?? null;
+  }
+  if (unconnected.length) return { values: {}, status: { level: 'missing-input', message: `${unconnected.join(', ')} not connected` } };
+
+  const warnings: string[] = [];
+  try {
+    const values = await def.evaluate(node.data, inputs, { ...host, warn: message => warnings.push(message) });
+    return { values, status: warnings.length ? { level: 'warning', message: warnings.join('; ') } : OK };
+  } catch (e) {
+    return { values: {}, status: { level: 'error', message: e instanceof Error ? e.message : String(e) } };
+  }
+}
+
+function primaryOutput(node: EvalNode, values: NodeOutputs): ImageData | null {
+  const def = getNodeDefinition(node.type);
+  const value = def ? values[previewPort(def, node.data)] : null;
+  return isImage(value) ? value : null;
+}
+
+export function isImage(value: PortValue | undefined): value is ImageData {
+  return typeof value === 'object' && value !== null && 'data' in value;
+}
+
+// Serialized parameters of a node; runtime-only fields don't affect the output
+function paramsKey(data: Record<string, unknown>): string {
+  return JSON.stringify(data, (key, value) => (key === 'title' || key === 'onChange' || key === 'preview' ? undefined : value));
+}
+
+type CacheEntry = { key: string; values: NodeOutputs; output: ImageData | null; status: NodeStatus; version: number };
+
+// `scale` is the proxy factor, 1 for full resolution
+export type EvalGraph = { nodes: EvalNode[]; edges: EvalEdge[]; resolution: Resolution; scale: number };
+
+export type EvaluateHooks = {
+  // ids of the nodes that will be recomputed, in evaluation order
+  onPlan?: (dirty: string[]) => void;
+  onResult?: (id: string, output: ImageData | null, status: NodeStatus) => void;
+  // polled between nodes; returning true abandons the run
+  isCancelled?: () => boolean;
+  // nodes whose cached results survive although they aren't in this graph,
+  // when it is only part of a larger one (see `upstreamGraph`)
+  retain?: ReadonlySet<string>;
+};
+
+export type EvaluatorOptions = {
+  // decoder for nodes with embedded images; each host supplies its own
+  decodeImage?: (src: string) => Promise<ImageData>;
+};
+
+const noDecoder = () => Promise.reject(new Error('Image decoding is not available here'));
+
+// Plain, cloneable description of the graph at one animation frame:
+// parameters and wiring only, with groups expanded into their inner nodes
+export function toEvalGraph(nodes: EvalNode[], edges: EvalEdge[], resolution: Resolution, frame = 0, scale = 1): EvalGraph {
+  const flat = expandGroups(nodes, edges);
+  return {
+    resolution: { width: resolution.width, height: resolution.height },
+    scale,
+    nodes: flat.nodes.map(n => ({ id: n.id, type: n.type, data: JSON.parse(paramsKey(sampleParams(getNodeDefinition(n.type), n.data, frame))) })),
+    edges: flat.edges.map(e => ({ source: e.source, target: e.target, sourceHandle: e.sourceHandle ?? null, targetHandle: e.targetHandle ?? null })),
+  };
+}
+
+// The nodes `ids` and everything upstream of them
+export function upstreamGraph(graph: EvalGraph, ids: Iterable<string>): EvalGraph {
+  const keep = new Set<string>();
+  const stack = Array.from(ids);
+  while (stack.length) {
+    const id = stack.pop()!;
+    if (keep.has(id)) continue;
+    keep.add(id);
+    graph.edges.forEach(e => { if (e.target === id) stack.push(e.source); });
+  }
+  return { ...graph, nodes: graph.nodes.filter(n => keep.has(n.id)), edges: graph.edges.filter(e => keep.has(e.target)) };
+}
+
+function topologicalOrder(nodes: EvalNode[], incoming: Record<string, EvalEdge[]>): EvalNode[] {
+  const order: EvalNode[] = [];
+  const done = new Set<string>();
+  let progress = true;
+  while (progress) {
+    progress = false;
+    for (const node of nodes) {
+      if (done.has(node.id)) continue;
+      if (!(incoming[node.id] || []).every(e => done.has(e.source))) continue;
+      order.push(node);
+      done.add(node.id);
+      progress = true;
+    }
+  }
+  return order;
+}
+
+const nextTask = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// Evaluates a graph incrementally. Each node's output is cached under a key
+// built from its own parameters and the versions of its upstream outputs, so
+// only nodes downstream of an actual change recompute. Position changes and
+// other edits that don't touch parameters or wiring are pure cache hits.
+// A cancelled run keeps whatever it finished; the next run picks up from there.
+export class GraphEvaluator {
+  private cache = new Map<string, CacheEntry>();
+  private nextVersion = 1;
+
+  constructor(private options: EvaluatorOptions = {}) {}
+
+  async evaluate(graph: EvalGraph, hooks: EvaluateHooks = {}): Promise<EvaluationResult | null> {
+    const { nodes, edges, resolution, scale } = graph;
+    const resolutionKey = `${resolution.width}x${resolution.height}@${scale}`;
+    const incoming: Record<string, EvalEdge[]> = {};
+    edges.forEach(e => { (incoming[e.target] ||= []).push(e); });
+    const order = topologicalOrder(nodes, incoming);
+    const byId: Record<string, EvalNode> = Object.fromEntries(nodes.map(n => [n.id, n]));
+
+    const keyFor = (node: EvalNode, version: (id: string) => number | undefined) => {
+      const upstream = (incoming[node.id] || []).map(e => `${e.targetHandle ?? ''}=${e.source}.${e.sourceHandle ?? ''}@${version(e.source)}`).sort().join(',');
+      return `${node.type}|${paramsKey(node.data)}|${resolutionKey}|${upstream}`;
+    };
+
+    // plan: a node is dirty when its key changed or anything upstream is dirty
+    const dirty = new Set<string>();
+    for (const node of order) {
+      const entry = this.cache.get(node.id);
+      const upstreamDirty = (incoming[node.id] || []).some(e => dirty.has(e.source));
+      if (upstreamDirty || !entry || entry.key !== keyFor(node, id => this.cache.get(id)?.version)) dirty.add(node.id);
+    }
+    const present = new Set(nodes.map(n => n.id));
+    for (const id of Array.from(this.cache.keys())) {
+      if (!present.has(id) && !hooks.retain?.has(id)) this.cache.delete(id);
+    }
+    hooks.onPlan?.(order.filter(n => dirty.has(n.id)).map(n => n.id));
+
+    const outputs: GraphOutputs = {};
+    const status: GraphStatus = {};
+    for (const node of order) {
+      if (dirty.has(node.id)) {
+        if (hooks.isCancelled) {
+          await nextTask();
+          if (hooks.isCancelled()) return null;
+        }
+        const inc = incoming[node.id] || [];
+        const { values, status: nodeStatus } = await evaluateNode(node, port => {
+          const e = inc.find(e => e.targetHandle === port);
+          return e ? { value: this.portValue(byId[e.source], e.sourceHandle), source: e.source, status: status[e.source] } : null;
+        }, { resolution, scale, decodeImage: this.options.decodeImage ?? noDecoder });
+        const output = primaryOutput(node, values);
+        this.cache.set(node.id, { key: keyFor(node, id => this.cache.get(id)?.version), values, output, status: nodeStatus, version: this.nextVersion++ });
+        hooks.onResult?.(node.id, output, nodeStatus);
+      }
+      const entry = this.cache.get(node.id)!;
+      outputs[node.id] = entry.output;
+      status[node.id] = entry.status;
+    }
+
+    // nodes left out of the order sit on or below a cycle
+    if (order.length < nodes.length) {
+      const cyclic = findCycleNodes(nodes, edges);
+      for (const node of nodes) {
+        if (node.id in status) continue;
+        outputs[node.id] = null;
+        status[node.id] = cyclic.has(node.id) ? { level: 'error', message: 'Part of a cycle' } : { level: 'missing-input', message: 'Blocked by a cycle upstream' };
+      }
+    }
+    return { outputs, status };
+  }
+
+  // Value on one output port of an evaluated node; edges saved before ports
+  // were named carry no sourceHandle and read the first output
+  private portValue(node: EvalNode | undefined, handle: string | null | undefined): PortValue {
+    if (!node) return null;
+    const values = this.cache.get(node.id)?.values ?? {};
+    const def = getNodeDefinition(node.type);
+    const port = handle ?? (def && nodePorts(def, node.data).outputs[0]?.id) ?? 'out';
+    return values[port] ?? null;
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { DocumentEdge, DocumentNode } from '@/lib/document';
+import { GraphEvaluator, toEvalGraph } from '@/lib/graph';
+import { collapseToGroup, composeScopes, enterScopes, expandGroups, nextNodeId } from '@/lib/groups';
+import '@/lib/nodes';
+
+const at = { x: 0, y: 0 };
+const nodes: DocumentNode[] = [
+  { id: '1', type: 'perlin', position: at, data: { scale: 4, seed: 3, customSize: false } },
+  { id: '2', type: 'gaussianBlur', position: at, data: { radius: 1, edge: 'clamp' } },
+  { id: '3', type: 'invert', position: at, data: {} },
+  { id: '4', type: 'display', position: at, data: {} },
+];
+const edges: DocumentEdge[] = [
+  { id: 'a', source: '1', target: '2', targetHandle: 'in' },
+  { id: 'b', source: '2', target: '3', targetHandle: 'in' },
+  { id: 'c', source: '3', target: '4', targetHandle: 'in' },
+];
+
+async function render(graph: { nodes: DocumentNode[]; edges: DocumentEdge[] }) {
+  const result = await new GraphEvaluator().evaluate(toEvalGraph(graph.nodes, graph.edges, { width: 8, height: 8 }));
+  return result!.outputs['4'];
+}
+
+describe('collapseToGroup', () => {
+  const grouped = collapseToGroup(nodes, edges, new Set(['2', '3']), '5');
+
+  it('replaces the selection by a group wired through its ports', () => {
+    expect(grouped.nodes.map(n => n.id)).toEqual(['1', '4', '5']);
+    expect(grouped.edges.map(e => `${e.source}.${e.sourceHandle ?? ''}>${e.target}.${e.targetHandle ?? ''}`).sort()).toEqual(['1.>5.in1', '5.out1>4.in']);
+  });
+
+  it('expands back to a graph that renders the same image', async () => {
+    const flat = expandGroups(grouped.nodes, grouped.edges);
+    expect(flat.nodes.map(n => n.id).sort()).toEqual(['1', '4', '5', '5/2', '5/3']);
+    expect(Array.from((await render(grouped))!.data)).toEqual(Array.from((await render({ nodes, edges }))!.data));
+  });
+
+  it('enters the group and composes edits back into the root', () => {
+    const { scopes, graph } = enterScopes(grouped, ['5']);
+    expect(graph.nodes.map(n => n.id)).toEqual(['input', '2', '3', 'output']);
+    const edited = { ...graph, nodes: graph.nodes.map(n => (n.id === '2' ? { ...n, data: { ...n.data, radius: 3 } } : n)) };
+    const root = composeScopes(scopes, edited);
+    expect(enterScopes(root, ['5']).graph.nodes.find(n => n.id === '2')!.data.radius).toBe(3);
+    expect(nextNodeId(root.nodes)).toBe(6);
+  });
+});
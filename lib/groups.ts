@@ -0,0 +1,186 @@
+import type { DocumentEdge, DocumentNode } from '@/lib/document';
+import { getNodeDefinition, nodePorts } from '@/lib/nodes';
+import type { GroupGraph, GroupParams } from '@/lib/nodes/groups';
+import type { PortSpec } from '@/lib/nodes/types';
+
+// Editor-side operations on group nodes: collapsing a selection into a group,
+// expanding groups for evaluation, entering nested groups and the library of
+// saved groups.
+
+type FlatNode = { id: string; type?: string; data: any };
+type FlatEdge = { source: string; target: string; sourceHandle?: string | null; targetHandle?: string | null };
+type Source = { source: string; sourceHandle?: string | null };
+
+export const isGroupBoundary = (type: string | undefined) => type === 'groupInput' || type === 'groupOutput';
+
+// Replace every group by its inner nodes so the evaluator only sees plain
+// nodes. Inner ids get the group's id as a prefix (`3/1`). The Group Output
+// node takes over the group's own id, so edges leaving the group still
+// resolve, and edges from the Group Input node are rewired to whatever feeds
+// the group from outside.
+export function expandGroups(nodes: FlatNode[], edges: FlatEdge[], prefix = '', inputs: Record<string, Source> = {}): { nodes: FlatNode[]; edges: FlatEdge[] } {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const id = (nodeId: string) => (prefix && byId.get(nodeId)?.type === 'groupOutput' ? prefix.slice(0, -1) : prefix + nodeId);
+  const sourceOf = (e: FlatEdge): Source | undefined =>
+    byId.get(e.source)?.type === 'groupInput' ? inputs[e.sourceHandle ?? ''] : { source: id(e.source), sourceHandle: e.sourceHandle };
+
+  const out: { nodes: FlatNode[]; edges: FlatEdge[] } = { nodes: [], edges: [] };
+  for (const n of nodes) {
+    if (n.type === 'groupInput') continue;
+    if (n.type !== 'group') {
+      out.nodes.push({ ...n, id: id(n.id) });
+      continue;
+    }
+    const groupInputs: Record<string, Source> = {};
+    edges.forEach(e => {
+      const source = e.target === n.id ? sourceOf(e) : undefined;
+      if (source) groupInputs[e.targetHandle ?? ''] = source;
+    });
+    const graph: GroupGraph = (n.data as GroupParams).graph ?? { nodes: [], edges: [] };
+    const inner = expandGroups(graph.nodes, graph.edges, `${prefix}${n.id}/`, groupInputs);
+    // without an output node the group still needs a status of its own
+    if (!graph.nodes.some(g => g.type === 'groupOutput')) inner.nodes.push({ id: prefix + n.id, type: 'groupOutput', data: { ports: [] } });
+    out.nodes.push(...inner.nodes);
+    out.edges.push(...inner.edges);
+  }
+  for (const e of edges) {
+    if (byId.get(e.target)?.type === 'group') continue;
+    const source = sourceOf(e);
+    if (source) out.edges.push({ ...source, target: id(e.target), targetHandle: e.targetHandle });
+  }
+  return out;
+}
+
+function portSpec(node: DocumentNode | undefined, handle: string | null | undefined, side: 'inputs' | 'outputs'): PortSpec | undefined {
+  const def = getNodeDefinition(node?.type);
+  if (!def || !node) return undefined;
+  const ports = nodePorts(def, node.data)[side];
+  return ports.find(p => p.id === (handle ?? ports[0]?.id));
+}
+
+// Move the selected nodes into a new group node. Edges crossing the selection
+// become the group's ports: one input per outside source and one output per
+// inside source.
+export function collapseToGroup(nodes: DocumentNode[], edges: DocumentEdge[], selected: ReadonlySet<string>, groupId: string): GroupGraph {
+  const inside = nodes.filter(n => selected.has(n.id) && !isGroupBoundary(n.type));
+  if (!inside.length) return { nodes, edges };
+  const ids = new Set(inside.map(n => n.id));
+  const byId = new Map(nodes.map(n => [n.id, n]));
+
+  const inputs = new Map<string, PortSpec & Source>();
+  const outputs = new Map<string, PortSpec & Source>();
+  const uniqueLabel = (ports: Map<string, PortSpec>, label: string) => {
+    const used = new Set(Array.from(ports.values(), p => p.label));
+    let result = label;
+    for (let n = 2; used.has(result); n++) result = `${label} ${n}`;
+    return result;
+  };
+  const portFor = (ports: Map<string, PortSpec & Source>, prefix: string, e: DocumentEdge, spec: PortSpec | undefined) => {
+    const key = `${e.source}:${e.sourceHandle ?? ''}`;
+    if (!ports.has(key)) {
+      ports.set(key, { id: `${prefix}${ports.size + 1}`, label: uniqueLabel(ports, spec?.label ?? prefix), type: spec?.type ?? 'image', optional: spec?.optional, source: e.source, sourceHandle: e.sourceHandle });
+    } else if (!spec?.optional) {
+      // an input is optional only if everything it feeds is
+      ports.get(key)!.optional = undefined;
+    }
+    return ports.get(key)!;
+  };
+
+  const innerEdges: DocumentEdge[] = [];
+  const outerEdges: DocumentEdge[] = [];
+  for (const e of edges) {
+    const from = ids.has(e.source); const to = ids.has(e.target);
+    if (from && to) {
+      innerEdges.push(e);
+    } else if (to) {
+      const port = portFor(inputs, 'in', e, portSpec(byId.get(e.target), e.targetHandle, 'inputs'));
+      innerEdges.push({ id: `${e.id}-in`, source: 'input', sourceHandle: port.id, target: e.target, targetHandle: e.targetHandle });
+    } else if (from) {
+      const port = portFor(outputs, 'out', e, portSpec(byId.get(e.source), e.sourceHandle, 'outputs'));
+      outerEdges.push({ id: `${e.id}-out`, source: groupId, sourceHandle: port.id, target: e.target, targetHandle: e.targetHandle });
+    } else {
+      outerEdges.push(e);
+    }
+  }
+  inputs.forEach(port => outerEdges.push({ id: `e${groupId}-${port.id}`, source: port.source, sourceHandle: port.sourceHandle ?? null, target: groupId, targetHandle: port.id }));
+  outputs.forEach(port => innerEdges.push({ id: `e${groupId}-${port.id}`, source: port.source, sourceHandle: port.sourceHandle ?? null, target: 'output', targetHandle: port.id }));
+
+  const xs = inside.map(n => n.position.x); const ys = inside.map(n => n.position.y);
+  const centerY = (Math.min(...ys) + Math.max(...ys)) / 2;
+  const toSpec = ({ id, label, type, optional }: PortSpec): PortSpec => (optional ? { id, label, type, optional } : { id, label, type });
+  const group: GroupParams = {
+    title: 'Group',
+    params: [],
+    graph: {
+      nodes: [
+        { id: 'input', type: 'groupInput', position: { x: Math.min(...xs) - 320, y: centerY }, data: { ports: Array.from(inputs.values(), toSpec) } },
+        ...inside,
+        { id: 'output', type: 'groupOutput', position: { x: Math.max(...xs) + 320, y: centerY }, data: { ports: Array.from(outputs.values(), toSpec) } },
+      ],
+      edges: innerEdges,
+    },
+  };
+  return {
+    nodes: [
+      ...nodes.filter(n => !ids.has(n.id)),
+      { id: groupId, type: 'group', position: { x: (Math.min(...xs) + Math.max(...xs)) / 2, y: centerY }, data: group },
+    ],
+    edges: outerEdges,
+  };
+}
+
+// Next free numeric node id across every level of nesting
+export function nextNodeId(nodes: DocumentNode[]): number {
+  return nodes.reduce((max, n) => {
+    const inner = n.type === 'group' ? nextNodeId((n.data as GroupParams).graph?.nodes ?? []) : 0;
+    return Math.max(max, Number(n.id) + 1 || 0, inner);
+  }, 1);
+}
+
+// One group the editor has entered: the level containing it, as it was when
+// entering (only the innermost level is edited)
+export type GroupScope = { groupId: string; title: string; nodes: DocumentNode[]; edges: DocumentEdge[] };
+
+// Put the edited innermost level back into its ancestors, giving the root level
+export function composeScopes(scopes: GroupScope[], graph: GroupGraph): GroupGraph {
+  return scopes.reduceRight<GroupGraph>((inner, scope) => ({
+    nodes: scope.nodes.map(n => (n.id === scope.groupId ? { ...n, data: { ...n.data, graph: inner } } : n)),
+    edges: scope.edges,
+  }), graph);
+}
+
+// Descend from the root level along a path of group ids, stopping early where
+// a group no longer exists (e.g. after undo)
+export function enterScopes(root: GroupGraph, path: string[]): { scopes: GroupScope[]; graph: GroupGraph } {
+  const scopes: GroupScope[] = [];
+  let graph = root;
+  for (const groupId of path) {
+    const group = graph.nodes.find(n => n.id === groupId && n.type === 'group');
+    if (!group) break;
+    const data = group.data as GroupParams;
+    scopes.push({ groupId, title: data.title, nodes: graph.nodes, edges: graph.edges });
+    graph = data.graph;
+  }
+  return { scopes, graph };
+}
+
+// Library of saved groups in localStorage, shared by every document
+export type GroupLibraryEntry = { name: string; group: GroupParams };
+const LIBRARY_KEY = 'agentic-node-editor:groups';
+
+export function readGroupLibrary(): GroupLibraryEntry[] {
+  try {
+    const entries = JSON.parse(localStorage.getItem(LIBRARY_KEY) ?? '[]');
+    return Array.isArray(entries) ? entries : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+export function writeGroupLibrary(entries: GroupLibraryEntry[]) {
+  try {
+    localStorage.setItem(LIBRARY_KEY, JSON.stringify(entries));
+  } catch (e) {
+    // quota exceeded or storage disabled; nothing we can do
+  }
+}
@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { UndoHistory } from '@/lib/history';
+
+describe('UndoHistory', () => {
+  afterEach(() => vi.useRealTimers());
+
+  it('undoes and redoes recorded snapshots', () => {
+    const history = new UndoHistory<string>();
+    history.record('a');
+    history.record('b');
+    expect(history.undo('c')).toBe('b');
+    expect(history.undo('b')).toBe('a');
+    expect(history.canUndo).toBe(false);
+    expect(history.redo('a')).toBe('b');
+    expect(history.redo('b')).toBe('c');
+    expect(history.canRedo).toBe(false);
+  });
+
+  it('merges records with the same key inside the merge window', () => {
+    vi.useFakeTimers();
+    const history = new UndoHistory<string>(200, 1000);
+    history.record('a', 'slider');
+    vi.advanceTimersByTime(500);
+    history.record('b', 'slider');
+    vi.advanceTimersByTime(500);
+    history.record('c', 'slider');
+    expect(history.undo('d')).toBe('a');
+    expect(history.canUndo).toBe(false);
+  });
+
+  it('starts a new step after the window, on another key or after breakMerge', () => {
+    vi.useFakeTimers();
+    const history = new UndoHistory<string>(200, 1000);
+    history.record('a', 'slider');
+    vi.advanceTimersByTime(1500);
+    history.record('b', 'slider');
+    history.record('c', 'drag');
+    history.breakMerge();
+    history.record('d', 'drag');
+    expect([history.undo('e'), history.undo('d'), history.undo('c'), history.undo('b')]).toEqual(['d', 'c', 'b', 'a']);
+  });
+
+  it('drops the redo stack on a new edit and keeps at most `limit` steps', () => {
+    const history = new UndoHistory<number>(3);
+    [1, 2, 3, 4].forEach(n => history.record(n));
+    history.undo(5);
+    history.record(6);
+    expect(history.canRedo).toBe(false);
+    expect([history.undo(7), history.undo(6), history.undo(3), history.undo(2)]).toEqual([6, 3, 2, null]);
+  });
+});
@@ -0,0 +1,57 @@
+// Snapshot-based undo/redo stack.
+//
+// Callers record the state *before* each edit. Consecutive records that share
+// a merge key within the merge window collapse into a single undo step, which
+// is how slider drags and node moves become one entry instead of hundreds.
+
+type Entry<T> = { snapshot: T; mergeKey?: string; time: number };
+
+export class UndoHistory<T> {
+  private past: Entry<T>[] = [];
+  private future: T[] = [];
+
+  constructor(private limit = 200, private mergeWindowMs = 1000) {}
+
+  get canUndo() { return this.past.length > 0; }
+  get canRedo() { return this.future.length > 0; }
+
+  record(snapshot: T, mergeKey?: string) {
+    const now = Date.now();
+    const last = this.past[this.past.length - 1];
+    // the same pre-edit state recorded twice in one tick is one edit
+    if (last && last.snapshot === snapshot) return;
+    if (last && mergeKey && last.mergeKey === mergeKey && now - last.time < this.mergeWindowMs) {
+      last.time = now;
+      this.future = [];
+      return;
+    }
+    this.past.push({ snapshot, mergeKey, time: now });
+    if (this.past.length > this.limit) this.past.shift();
+    this.future = [];
+  }
+
+  // End the current merge run, e.g. when a drag gesture finishes
+  breakMerge() {
+    const last = this.past[this.past.length - 1];
+    if (last) last.mergeKey = undefined;
+  }
+
+  undo(current: T): T | null {
+    const entry = this.past.pop();
+    if (!entry) return null;
+    this.future.push(current);
+    return entry.snapshot;
+  }
+
+  redo(current: T): T | null {
+    const next = this.future.pop();
+    if (next === undefined) return null;
+    this.past.push({ snapshot: current, time: 0 });
+    return next;
+  }
+
+  clear() {
+    this.past = [];
+    this.future = [];
+  }
+}
@@ -0,0 +1,235 @@
+import { describe, expect, it } from 'vitest';
+import { BlendMode, CompositeOp, FractalOptions, TransformOptions, adjustHsv, blendImages, boxBlur, convolve, detectEdges, emboss, evaluateCurve, extractChannel, gaussianBlur, generateCellularNoise, generateFractalNoise, gradientMap, levelsLut, mergeChannels, resizeImage, setAlpha, transformImage, unsharpMask } from '@/lib/image';
+
+function image(width: number, height: number, pixel: (x: number, y: number) => number[]): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data.set(pixel(x, y), (y * width + x) * 4);
+  }
+  return new ImageData(data, width, height);
+}
+
+const red = (img: ImageData) => Array.from({ length: img.width * img.height }, (_, i) => img.data[i * 4]);
+
+describe('resizeImage', () => {
+  it('averages pixels when shrinking', () => {
+    const stripes = image(4, 1, x => [x % 2 ? 255 : 0, 0, 0, 255]);
+    expect(red(resizeImage(stripes, 2, 1))).toEqual([128, 128]);
+  });
+
+  it('interpolates the enlarged axis while averaging the reduced one', () => {
+    // a horizontal ramp, twice as wide and half as tall
+    const ramp = image(2, 4, x => [x * 200, 0, 0, 255]);
+    const out = resizeImage(ramp, 4, 2);
+    expect(red(out)).toEqual([0, 50, 150, 200, 0, 50, 150, 200]);
+  });
+
+  it("doesn't darken colors next to transparent pixels", () => {
+    const edge = image(2, 1, x => (x ? [0, 0, 0, 0] : [100, 150, 200, 255]));
+    const out = resizeImage(edge, 1, 1);
+    expect(Array.from(out.data)).toEqual([100, 150, 200, 128]);
+  });
+});
+
+describe('convolution', () => {
+  // one opaque pixel on a transparent background
+  const dot = image(5, 5, (x, y) => (x === 2 && y === 2 ? [100, 150, 200, 255] : [0, 0, 0, 0]));
+  const pixel = (img: ImageData, x: number, y: number) => Array.from(img.data.slice((y * img.width + x) * 4, (y * img.width + x) * 4 + 4));
+
+  it('keeps colors next to transparent pixels when blurring', () => {
+    for (const blurred of [gaussianBlur(dot, 1, 'transparent'), boxBlur(dot, 1, 'transparent')]) {
+      expect(pixel(blurred, 2, 2).slice(0, 3)).toEqual([100, 150, 200]);
+      expect(pixel(blurred, 3, 2).slice(0, 3)).toEqual([100, 150, 200]);
+      expect(pixel(blurred, 2, 2)[3]).toBeLessThan(255);
+    }
+    expect(pixel(unsharpMask(dot, 1, 1, 0, 'transparent'), 2, 2)).toEqual([100, 150, 200, 255]);
+  });
+
+  it('ignores the color of fully transparent pixels', () => {
+    const hidden = image(3, 1, x => (x === 1 ? [100, 150, 200, 255] : [255, 255, 255, 0]));
+    expect(pixel(convolve(hidden, [0, 0, 0, 1 / 3, 1 / 3, 1 / 3, 0, 0, 0], 3, { edge: 'clamp' }), 1, 0)).toEqual([100, 150, 200, 85]);
+  });
+
+  it('leaves flat areas flat in edge detect and emboss', () => {
+    const flat = image(4, 4, () => [90, 90, 90, 255]);
+    expect(pixel(detectEdges(flat, 'sobel', 1, 'clamp'), 1, 1)).toEqual([0, 0, 0, 255]);
+    expect(pixel(emboss(flat, 135, 1, 'clamp'), 1, 1)).toEqual([128, 128, 128, 255]);
+  });
+});
+
+describe('blendImages', () => {
+  const solid = (rgba: number[]) => image(1, 1, () => rgba);
+  const blend = (a: number[], b: number[], mode: BlendMode, composite: CompositeOp = 'over', opacity = 1) => Array.from(blendImages(solid(a), solid(b), mode, opacity, composite)!.data);
+
+  it('applies the separable blend modes on opaque pixels', () => {
+    const a = [64, 128, 192, 255];
+    const b = [128, 128, 128, 255];
+    expect(blend(a, b, 'normal')).toEqual(b);
+    expect(blend(a, b, 'multiply')).toEqual([32, 64, 96, 255]);
+    expect(blend(a, b, 'screen')).toEqual([160, 192, 224, 255]);
+    expect(blend(a, b, 'difference')).toEqual([64, 0, 64, 255]);
+    // overlay is hard light with the layers swapped: dark backdrop multiplies, light screens
+    expect(blend(a, [200, 200, 200, 255], 'overlay')).toEqual([100, 200, 228, 255]);
+  });
+
+  it('keeps the backdrop luminance in the color mode', () => {
+    const [r, g, b] = blend([128, 128, 128, 255], [255, 0, 0, 255], 'color');
+    expect(0.3 * r + 0.59 * g + 0.11 * b).toBeCloseTo(128, 0);
+    expect(r).toBeGreaterThan(g);
+  });
+
+  it('composites with the Porter-Duff operators', () => {
+    const a = [255, 0, 0, 255];
+    const b = [0, 0, 255, 128];
+    expect(blend(a, b, 'normal', 'over')).toEqual([127, 0, 128, 255]);
+    expect(blend(a, b, 'normal', 'in')).toEqual([0, 0, 255, 128]);
+    expect(blend(a, b, 'normal', 'out')[3]).toBe(0);
+    expect(blend(a, b, 'normal', 'atop')).toEqual([127, 0, 128, 255]);
+    expect(blend(a, b, 'normal', 'xor')).toEqual([255, 0, 0, 127]);
+  });
+
+  it('scales the source by opacity and mask, and shows it unblended over nothing', () => {
+    expect(blend([0, 0, 0, 255], [255, 255, 255, 255], 'normal', 'over', 0.5)).toEqual([128, 128, 128, 255]);
+    expect(blend([0, 0, 0, 0], [200, 100, 50, 255], 'multiply')).toEqual([200, 100, 50, 255]);
+    const masked = blendImages(solid([0, 0, 0, 255]), solid([255, 255, 255, 255]), 'normal', 1, 'over', solid([0, 0, 0, 255]))!;
+    expect(Array.from(masked.data)).toEqual([0, 0, 0, 255]);
+  });
+});
+
+describe('channels', () => {
+  const img = image(3, 2, (x, y) => [x * 100, y * 200, 50 + x * 10, 255 - x * 60]);
+
+  it('splits into channels that merge back into the original', () => {
+    const [r, g, b, a] = (['r', 'g', 'b', 'a'] as const).map(c => extractChannel(img, c));
+    expect(Array.from(r.data.slice(4, 8))).toEqual([100, 100, 100, 255]);
+    expect(mergeChannels({ r, g, b, a }, 3, 2).data).toEqual(img.data);
+  });
+
+  it('fills missing channels with black and missing alpha with opaque', () => {
+    const r = extractChannel(img, 'r');
+    expect(Array.from(mergeChannels({ r }, 3, 2).data.slice(8, 12))).toEqual([200, 0, 0, 255]);
+    expect(() => mergeChannels({ r }, 2, 2)).toThrow(RangeError);
+  });
+
+  it('sets alpha from the luminance of the mask', () => {
+    const mask = image(3, 2, x => [x === 0 ? 255 : 0, x === 1 ? 255 : 0, x === 2 ? 255 : 0, 255]);
+    const out = setAlpha(img, mask);
+    expect([out.data[3], out.data[7], out.data[11]]).toEqual([54, 182, 18]);
+    expect(Array.from(out.data.slice(0, 3))).toEqual(Array.from(img.data.slice(0, 3)));
+    expect(extractChannel(out, 'luminance').data[0]).toBe(extractChannel(img, 'luminance').data[0]);
+  });
+});
+
+describe('transformImage', () => {
+  // red encodes the source pixel: 10 × (x + 4y)
+  const img = image(4, 4, (x, y) => [10 * (x + 4 * y), 0, 0, 255]);
+  const identity: TransformOptions = { translateX: 0, translateY: 0, rotate: 0, scaleX: 1, scaleY: 1, flipX: false, flipY: false, tilesX: 1, tilesY: 1, interpolation: 'nearest', edge: 'clamp' };
+  const row = (img: ImageData, y: number) => red(img).slice(y * 4, y * 4 + 4);
+
+  it('leaves the image unchanged without a transform', () => {
+    for (const interpolation of ['nearest', 'bilinear', 'bicubic'] as const) expect(transformImage(img, { ...identity, interpolation }).data).toEqual(img.data);
+  });
+
+  it('flips, rotates clockwise and moves', () => {
+    expect(row(transformImage(img, { ...identity, flipX: true }), 0)).toEqual([30, 20, 10, 0]);
+    expect(row(transformImage(img, { ...identity, rotate: 90 }), 0)).toEqual([120, 80, 40, 0]);
+    expect(row(transformImage(img, { ...identity, translateX: 0.25, edge: 'wrap' }), 1)).toEqual([70, 40, 50, 60]);
+  });
+
+  it('leaves uncovered pixels transparent with the transparent edge mode', () => {
+    const out = transformImage(img, { ...identity, translateX: 0.25, edge: 'transparent' });
+    expect([out.data[3], out.data[7]]).toEqual([0, 255]);
+  });
+
+  it('repeats the image across tiles', () => {
+    const out = transformImage(img, { ...identity, tilesX: 2, tilesY: 2 });
+    expect(row(out, 0).slice(0, 2)).toEqual(row(out, 0).slice(2));
+    expect(row(out, 0)).toEqual(row(out, 2));
+  });
+
+  it('rejects a zero scale', () => {
+    expect(() => transformImage(img, { ...identity, scaleY: 0 })).toThrow(RangeError);
+  });
+});
+
+describe('color adjustments', () => {
+  const levels = { inBlack: 0, inWhite: 255, gamma: 1, outBlack: 0, outWhite: 255 };
+
+  it('maps levels through the input range, gamma and output range', () => {
+    expect(Array.from(levelsLut(levels))).toEqual(Array.from({ length: 256 }, (_, v) => v));
+    const stretched = levelsLut({ ...levels, inBlack: 50, inWhite: 200 });
+    expect([stretched[0], stretched[50], stretched[125], stretched[200], stretched[255]]).toEqual([0, 0, 128, 255, 255]);
+    expect(levelsLut({ ...levels, gamma: 2 })[64]).toBe(128);
+    expect(levelsLut({ ...levels, outBlack: 100, outWhite: 200 })[255]).toBe(200);
+    expect(() => levelsLut({ ...levels, inBlack: 200, inWhite: 200 })).toThrow(RangeError);
+    expect(() => levelsLut({ ...levels, gamma: 0 })).toThrow(RangeError);
+  });
+
+  it('runs curves through their points without overshooting', () => {
+    expect(evaluateCurve([[0, 0], [1, 1]], 0.3)).toBeCloseTo(0.3);
+    expect(evaluateCurve([[0, 0], [0.5, 0.8], [1, 1]], 0.5)).toBeCloseTo(0.8);
+    expect(evaluateCurve([[0.2, 0.1], [0.8, 0.9]], 0)).toBe(0.1);
+    expect(evaluateCurve([], 0.4)).toBe(0.4);
+    const steep = Array.from({ length: 101 }, (_, i) => evaluateCurve([[0, 0], [0.1, 0.9], [1, 1]], i / 100));
+    steep.slice(1).forEach((y, i) => expect(y).toBeGreaterThanOrEqual(steep[i]));
+    expect(Math.max(...steep)).toBeLessThanOrEqual(1);
+  });
+
+  it('shifts hue and scales saturation and value', () => {
+    const img = image(1, 1, () => [255, 0, 0, 200]);
+    expect(Array.from(adjustHsv(img, 120, 1, 1).data)).toEqual([0, 255, 0, 200]);
+    expect(Array.from(adjustHsv(img, -120, 1, 1).data)).toEqual([0, 0, 255, 200]);
+    expect(Array.from(adjustHsv(img, 0, 0, 1).data)).toEqual([255, 255, 255, 200]);
+    expect(Array.from(adjustHsv(img, 0, 1, 0).data)).toEqual([0, 0, 0, 200]);
+  });
+
+  it('maps luminance through the gradient stops', () => {
+    const img = image(3, 1, x => [[0, 0, 0], [255, 0, 0], [255, 255, 255]][x].concat(255));
+    const gray = gradientMap(img, [{ position: 0, color: '#000000' }, { position: 1, color: '#ffffff' }]);
+    expect(red(gray)).toEqual([0, 54, 255]);
+    const tinted = gradientMap(img, [{ position: 1, color: '#ff0000' }, { position: 0, color: '#0000ff' }]);
+    expect(Array.from(tinted.data.slice(0, 4))).toEqual([0, 0, 255, 255]);
+    expect(Array.from(tinted.data.slice(8, 12))).toEqual([255, 0, 0, 255]);
+    expect(() => gradientMap(img, [])).toThrow(RangeError);
+  });
+});
+
+describe('noise', () => {
+  const options: FractalOptions = { scale: 16, seed: 5, octaves: 3, lacunarity: 2, gain: 0.5, mode: 'fbm', tile: true };
+  const generators: [string, (o: FractalOptions) => ImageData][] = [
+    ...(['perlin', 'value', 'simplex'] as const).map(basis => [basis, (o: FractalOptions) => generateFractalNoise(48, 40, basis, o)] as [string, (o: FractalOptions) => ImageData]),
+    ['cellular', o => generateCellularNoise(48, 40, 'f1', 'euclidean', 1, o)],
+  ];
+
+  // mean step across the wrap-around edge relative to the mean step between
+  // neighbouring pixels, along x or y; about 1 for a seamless tile
+  function seam(img: ImageData, axis: 'x' | 'y'): number {
+    const [across, along] = axis === 'x' ? [img.width, img.height] : [img.height, img.width];
+    const v = (i: number, j: number) => img.data[(axis === 'x' ? j * img.width + i : i * img.width + j) * 4];
+    let edge = 0, inner = 0;
+    for (let j = 0; j < along; j++) {
+      edge += Math.abs(v(across - 1, j) - v(0, j));
+      for (let i = 1; i < across; i++) inner += Math.abs(v(i, j) - v(i - 1, j));
+    }
+    return edge / along / (inner / (along * (across - 1)));
+  }
+
+  it('repeats the same image for a fixed seed', () => {
+    for (const [name, generate] of generators) {
+      expect(generate(options).data, name).toEqual(generate(options).data);
+      expect(generate(options).data, name).not.toEqual(generate({ ...options, seed: 6 }).data);
+    }
+  });
+
+  it('wraps seamlessly when tiling', () => {
+    for (const [name, generate] of generators) {
+      const tiled = generate(options);
+      const untiled = generate({ ...options, tile: false });
+      expect(seam(tiled, 'x'), name).toBeLessThan(2);
+      expect(seam(tiled, 'y'), name).toBeLessThan(2);
+      // the measure does see the edge of noise that doesn't tile
+      expect(seam(untiled, 'x'), name).toBeGreaterThan(2);
+      expect(seam(untiled, 'y'), name).toBeGreaterThan(2);
+    }
+  });
+});
@@ -1,3 +1,33 @@
+export function colorHexToRgb(hex: string) {
+  const h = String(hex).replace('#', '');
+  if (!/^([0-9a-f]{3}|[0-9a-f]{6})$/i.test(h)) throw new Error(`Invalid color "${hex}"`);
+  const bigint = parseInt(h.length === 3 ? h.split('').map(c => c + c).join('') : h, 16);
+  const r = (bigint >> 16) & 255;
+  const g = (bigint >> 8) & 255;
+  const b = bigint & 255;
+  return { r, g, b };
+}
+
+// Rec. 709 luminance of 0..255 color values
+export function luminance(r: number, g: number, b: number): number {
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+export function rgbToHex({ r, g, b }: { r: number; g: number; b: number }): string {
+  return '#' + [r, g, b].map(v => Math.round(Math.min(255, Math.max(0, v))).toString(16).padStart(2, '0')).join('');
+}
+
+// Mean color of the pixels, weighted by alpha; transparent images average to black
+export function averageColor(img: ImageData): { r: number; g: number; b: number } {
+  const src = img.data;
+  let r = 0, g = 0, b = 0, weight = 0;
+  for (let i = 0; i < src.length; i += 4) {
+    const a = src[i + 3];
+    r += src[i] * a; g += src[i + 1] * a; b += src[i + 2] * a; weight += a;
+  }
+  return weight ? { r: r / weight, g: g / weight, b: b / weight } : { r: 0, g: 0, b: 0 };
+}
+
 export function createSolidImage(width: number, height: number, r: number, g: number, b: number, a: number = 255): ImageData {
   const data = new Uint8ClampedArray(width * height * 4);
   for (let i = 0; i < width * height; i++) {
@@ -32,12 +62,14 @@ function mulberry32(a: number) {
   };
 }
 
-export function generatePerlinNoise(width: number, height: number, scale: number, seed: number): ImageData {
+// `lattice` is the number of gradient cells across, which decides where every
+// random gradient lands; it defaults to what covers the image
+export function generatePerlinNoise(width: number, height: number, scale: number, seed: number, lattice = { columns: Math.ceil(width / scale), rows: Math.ceil(height / scale) }): ImageData {
   const rand = mulberry32(seed >>> 0);
   const gradX: number[][] = [];
   const gradY: number[][] = [];
-  const gridW = Math.ceil(width / scale) + 2;
-  const gridH = Math.ceil(height / scale) + 2;
+  const gridW = lattice.columns + 2;
+  const gridH = lattice.rows + 2;
   for (let gy = 0; gy < gridH; gy++) {
     gradX[gy] = [];
     gradY[gy] = [];
@@ -82,39 +114,936 @@ export function generatePerlinNoise(width: number, height: number, scale: number
   return new ImageData(data, width, height);
 }
 
-export function blendImages(a: ImageData | null, b: ImageData | null, mode: 'add' | 'multiply' | 'overlay' | 'screen' | 'difference', opacity: number): ImageData | null {
+export type BlendMode =
+  | 'normal' | 'add' | 'multiply' | 'screen' | 'overlay' | 'darken' | 'lighten' | 'color-dodge' | 'color-burn'
+  | 'hard-light' | 'soft-light' | 'difference' | 'exclusion' | 'hue' | 'saturation' | 'color' | 'luminosity';
+// Porter-Duff operator deciding which parts of the source (B) and backdrop (A) survive
+export type CompositeOp = 'over' | 'in' | 'out' | 'atop' | 'xor';
+
+// Separable blend functions on 0..1 channels, backdrop `cb` and source `cs`
+function blendChannel(mode: BlendMode, cb: number, cs: number): number {
+  switch (mode) {
+    case 'add': return Math.min(1, cb + cs);
+    case 'multiply': return cb * cs;
+    case 'screen': return cb + cs - cb * cs;
+    case 'overlay': return blendChannel('hard-light', cs, cb);
+    case 'darken': return Math.min(cb, cs);
+    case 'lighten': return Math.max(cb, cs);
+    case 'color-dodge': return cb === 0 ? 0 : cs >= 1 ? 1 : Math.min(1, cb / (1 - cs));
+    case 'color-burn': return cb >= 1 ? 1 : cs <= 0 ? 0 : 1 - Math.min(1, (1 - cb) / cs);
+    case 'hard-light': return cs <= 0.5 ? cb * 2 * cs : blendChannel('screen', cb, 2 * cs - 1);
+    case 'soft-light': {
+      if (cs <= 0.5) return cb - (1 - 2 * cs) * cb * (1 - cb);
+      const d = cb <= 0.25 ? ((16 * cb - 12) * cb + 4) * cb : Math.sqrt(cb);
+      return cb + (2 * cs - 1) * (d - cb);
+    }
+    case 'difference': return Math.abs(cb - cs);
+    case 'exclusion': return cb + cs - 2 * cb * cs;
+    default: return cs;
+  }
+}
+
+type Rgb = [number, number, number];
+
+// Helpers for the non-separable modes, as defined by the W3C compositing spec
+const lum = ([r, g, b]: Rgb) => 0.3 * r + 0.59 * g + 0.11 * b;
+const sat = (c: Rgb) => Math.max(...c) - Math.min(...c);
+
+function clipColor(c: Rgb): Rgb {
+  const l = lum(c); const n = Math.min(...c); const x = Math.max(...c);
+  return c.map(v => {
+    if (n < 0) v = l + ((v - l) * l) / (l - n);
+    if (x > 1) v = l + ((v - l) * (1 - l)) / (x - l);
+    return v;
+  }) as Rgb;
+}
+
+function setLum(c: Rgb, l: number): Rgb {
+  const d = l - lum(c);
+  return clipColor([c[0] + d, c[1] + d, c[2] + d]);
+}
+
+function setSat(c: Rgb, s: number): Rgb {
+  const max = Math.max(...c); const min = Math.min(...c);
+  return c.map(v => (max > min ? ((v - min) * s) / (max - min) : 0)) as Rgb;
+}
+
+function blendColor(mode: BlendMode, cb: Rgb, cs: Rgb): Rgb {
+  switch (mode) {
+    case 'hue': return setLum(setSat(cs, sat(cb)), lum(cb));
+    case 'saturation': return setLum(setSat(cb, sat(cs)), lum(cb));
+    case 'color': return setLum(cs, lum(cb));
+    case 'luminosity': return setLum(cb, lum(cs));
+    default: return [blendChannel(mode, cb[0], cs[0]), blendChannel(mode, cb[1], cs[1]), blendChannel(mode, cb[2], cs[2])];
+  }
+}
+
+// Porter-Duff factors [Fa, Fb] for source alpha `as` over backdrop alpha `ab`
+function compositeFactors(op: CompositeOp, as: number, ab: number): [number, number] {
+  switch (op) {
+    case 'over': return [1, 1 - as];
+    case 'in': return [ab, 0];
+    case 'out': return [1 - ab, 0];
+    case 'atop': return [ab, 1 - as];
+    case 'xor': return [1 - ab, 1 - as];
+  }
+}
+
+// Composite source B onto backdrop A: B's colors are first blended with A
+// where they overlap, then combined by the Porter-Duff operator. `opacity`
+// and the optional mask (red channel, same size as the inputs) scale B's alpha.
+// A missing input counts as fully transparent.
+export function blendImages(a: ImageData | null, b: ImageData | null, mode: BlendMode, opacity: number, composite: CompositeOp = 'over', mask: ImageData | null = null): ImageData | null {
   const img = a || b;
   if (!img) return null;
   const width = img.width; const height = img.height;
+  if (a && b && (a.width !== b.width || a.height !== b.height)) throw new RangeError(`Input sizes differ: ${a.width}×${a.height} and ${b.width}×${b.height}`);
+  if (mask && (mask.width !== width || mask.height !== height)) throw new RangeError(`Mask size ${mask.width}×${mask.height} doesn't match ${width}×${height}`);
   const out = new Uint8ClampedArray(width * height * 4);
   const ad = a ? a.data : new Uint8ClampedArray(width * height * 4);
   const bd = b ? b.data : new Uint8ClampedArray(width * height * 4);
 
-  function blendChannel(A: number, B: number): number {
-    switch (mode) {
-      case 'add': return Math.min(255, A + B);
-      case 'multiply': return Math.round((A * B) / 255);
-      case 'overlay': return A < 128 ? Math.round((2 * A * B) / 255) : 255 - Math.round(2 * (255 - A) * (255 - B) / 255);
-      case 'screen': return 255 - Math.round(((255 - A) * (255 - B)) / 255);
-      case 'difference': return Math.abs(A - B);
-      default: return B;
+  for (let i = 0; i < width * height; i++) {
+    const idx = i * 4;
+    const ab = ad[idx + 3] / 255;
+    const as = (bd[idx + 3] / 255) * opacity * (mask ? mask.data[idx] / 255 : 1);
+    const cb: Rgb = [ad[idx] / 255, ad[idx + 1] / 255, ad[idx + 2] / 255];
+    const cs: Rgb = [bd[idx] / 255, bd[idx + 1] / 255, bd[idx + 2] / 255];
+    const blended = blendColor(mode, cb, cs);
+    const [fa, fb] = compositeFactors(composite, as, ab);
+    const ao = as * fa + ab * fb;
+    for (let c = 0; c < 3; c++) {
+      // where there is no backdrop the source shows unblended
+      const source = (1 - ab) * cs[c] + ab * blended[c];
+      const co = as * fa * source + ab * fb * cb[c];
+      out[idx + c] = ao > 0 ? Math.round((co / ao) * 255) : 0;
     }
+    out[idx + 3] = Math.round(ao * 255);
   }
 
-  for (let i = 0; i < width * height; i++) {
-    const idx = i * 4;
-    const r = blendChannel(ad[idx], bd[idx]);
-    const g = blendChannel(ad[idx + 1], bd[idx + 1]);
-    const bl = blendChannel(ad[idx + 2], bd[idx + 2]);
-    const aA = ad[idx + 3] / 255; const aB = bd[idx + 3] / 255;
-    const aOut = Math.max(aA, aB);
+  return new ImageData(out, width, height);
+}
+
+// Source pixels and weights for every output position along one axis: the
+// average of the covered pixels when shrinking, linear interpolation otherwise
+function resizeTaps(src: number, dst: number): { index: number[]; weight: number[] }[] {
+  const scale = src / dst;
+  return Array.from({ length: dst }, (_, o) => {
+    if (scale > 1) {
+      const i0 = Math.floor(o * scale);
+      const i1 = Math.min(src, Math.max(i0 + 1, Math.floor((o + 1) * scale)));
+      const index = Array.from({ length: i1 - i0 }, (_, k) => i0 + k);
+      return { index, weight: index.map(() => 1 / index.length) };
+    }
+    const f = Math.min(Math.max((o + 0.5) * scale - 0.5, 0), src - 1);
+    const i0 = Math.floor(f);
+    return { index: [i0, Math.min(i0 + 1, src - 1)], weight: [1 - (f - i0), f - i0] };
+  });
+}
+
+// Resample to an arbitrary size, each axis on its own: bilinear along an axis
+// that grows, area average along one that shrinks so that fine detail like
+// noise doesn't alias. Color is averaged premultiplied, like `sampleImage`.
+export function resizeImage(img: ImageData, width: number, height: number): ImageData {
+  if (img.width === width && img.height === height) return img;
+  const src = img.data; const sw = img.width;
+  const out = new Uint8ClampedArray(width * height * 4);
+  const xs = resizeTaps(sw, width);
+  const ys = resizeTaps(img.height, height);
+
+  for (let y = 0; y < height; y++) {
+    const ty = ys[y];
+    for (let x = 0; x < width; x++) {
+      const tx = xs[x];
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let j = 0; j < ty.index.length; j++) {
+        const row = ty.index[j] * sw;
+        for (let i = 0; i < tx.index.length; i++) {
+          const s = (row + tx.index[i]) * 4;
+          const pa = src[s + 3] * ty.weight[j] * tx.weight[i];
+          r += src[s] * pa; g += src[s + 1] * pa; b += src[s + 2] * pa; a += pa;
+        }
+      }
+      if (a <= 0) continue;
+      const idx = (y * width + x) * 4;
+      out[idx] = r / a; out[idx + 1] = g / a; out[idx + 2] = b / a; out[idx + 3] = a;
+    }
+  }
+  return new ImageData(out, width, height);
+}
+
+// Center on a canvas of the given size, cropping overflow and padding with transparency
+export function cropOrPadImage(img: ImageData, width: number, height: number): ImageData {
+  if (img.width === width && img.height === height) return img;
+  const out = new Uint8ClampedArray(width * height * 4);
+  const ox = Math.floor((width - img.width) / 2); const oy = Math.floor((height - img.height) / 2);
+  for (let y = 0; y < height; y++) {
+    const sy = y - oy;
+    if (sy < 0 || sy >= img.height) continue;
+    const x0 = Math.max(0, ox); const x1 = Math.min(width, ox + img.width);
+    if (x1 <= x0) continue;
+    const s = (sy * img.width + (x0 - ox)) * 4;
+    out.set(img.data.subarray(s, s + (x1 - x0) * 4), (y * width + x0) * 4);
+  }
+  return new ImageData(out, width, height);
+}
+
+// Scale into a target size: `fit` letterboxes, `fill` crops the overflow and
+// `stretch` ignores the aspect ratio
+export type FitMode = 'fit' | 'fill' | 'stretch';
+
+export function fitImage(img: ImageData, width: number, height: number, mode: FitMode): ImageData {
+  if (mode === 'stretch') return resizeImage(img, width, height);
+  const scale = mode === 'fit' ? Math.min(width / img.width, height / img.height) : Math.max(width / img.width, height / img.height);
+  const scaled = resizeImage(img, Math.max(1, Math.round(img.width * scale)), Math.max(1, Math.round(img.height * scale)));
+  return cropOrPadImage(scaled, width, height);
+}
+
+export type SizePolicy = 'resize-to-a' | 'resize-to-b' | 'crop';
+
+// Bring two images to a common size before a per-pixel operation
+export function matchImageSizes(a: ImageData | null, b: ImageData | null, policy: SizePolicy): [ImageData | null, ImageData | null] {
+  if (!a || !b || (a.width === b.width && a.height === b.height)) return [a, b];
+  switch (policy) {
+    case 'resize-to-a': return [a, resizeImage(b, a.width, a.height)];
+    case 'resize-to-b': return [resizeImage(a, b.width, b.height), b];
+    case 'crop': return [a, cropOrPadImage(b, a.width, a.height)];
+  }
+}
+
+// Sampling
+export type Interpolation = 'nearest' | 'bilinear' | 'bicubic';
+export type EdgeMode = 'clamp' | 'wrap' | 'mirror' | 'transparent';
+
+// Map an integer coordinate outside [0, size) back inside, or -1 for transparent
+function edgeIndex(i: number, size: number, edge: EdgeMode): number {
+  if (i >= 0 && i < size) return i;
+  switch (edge) {
+    case 'clamp': return i < 0 ? 0 : size - 1;
+    case 'wrap': return ((i % size) + size) % size;
+    case 'mirror': {
+      const period = size * 2;
+      const m = ((i % period) + period) % period;
+      return m < size ? m : period - 1 - m;
+    }
+    case 'transparent': return -1;
+  }
+}
+
+// Catmull-Rom weights for the four taps around t in [0, 1)
+function cubicWeights(t: number): [number, number, number, number] {
+  const t2 = t * t; const t3 = t2 * t;
+  return [
+    -0.5 * t3 + t2 - 0.5 * t,
+    1.5 * t3 - 2.5 * t2 + 1,
+    -1.5 * t3 + 2 * t2 + 0.5 * t,
+    0.5 * t3 - 0.5 * t2,
+  ];
+}
+
+// Sample `img` at continuous pixel coordinates (pixel centers sit at i + 0.5)
+// and write RGBA into `out` at `offset`. Color is interpolated premultiplied
+// so transparent edges don't bleed black.
+export function sampleImage(img: ImageData, x: number, y: number, interpolation: Interpolation, edge: EdgeMode, out: Uint8ClampedArray, offset: number) {
+  const { width, height, data } = img;
+  const fx = x - 0.5; const fy = y - 0.5;
+  let taps: number; let x0: number; let y0: number; let wx: number[]; let wy: number[];
+  switch (interpolation) {
+    case 'nearest':
+      taps = 1; x0 = Math.round(fx); y0 = Math.round(fy); wx = [1]; wy = [1];
+      break;
+    case 'bilinear':
+      taps = 2; x0 = Math.floor(fx); y0 = Math.floor(fy); wx = [1 - (fx - x0), fx - x0]; wy = [1 - (fy - y0), fy - y0];
+      break;
+    case 'bicubic':
+      taps = 4; x0 = Math.floor(fx) - 1; y0 = Math.floor(fy) - 1; wx = cubicWeights(fx - x0 - 1); wy = cubicWeights(fy - y0 - 1);
+      break;
+  }
+  let r = 0, g = 0, b = 0, a = 0;
+  for (let j = 0; j < taps; j++) {
+    const sy = edgeIndex(y0 + j, height, edge);
+    if (sy < 0) continue;
+    for (let i = 0; i < taps; i++) {
+      const sx = edgeIndex(x0 + i, width, edge);
+      if (sx < 0) continue;
+      const w = wx[i] * wy[j];
+      const s = (sy * width + sx) * 4;
+      const pa = data[s + 3] * w;
+      r += data[s] * pa; g += data[s + 1] * pa; b += data[s + 2] * pa; a += pa;
+    }
+  }
+  if (a <= 0) {
+    out[offset] = 0; out[offset + 1] = 0; out[offset + 2] = 0; out[offset + 3] = 0;
+    return;
+  }
+  out[offset] = r / a; out[offset + 1] = g / a; out[offset + 2] = b / a; out[offset + 3] = a;
+}
+
+export type TransformOptions = {
+  // offset as a fraction of the image size
+  translateX: number;
+  translateY: number;
+  // degrees, clockwise
+  rotate: number;
+  scaleX: number;
+  scaleY: number;
+  flipX: boolean;
+  flipY: boolean;
+  // copies of the transformed image across and down
+  tilesX: number;
+  tilesY: number;
+  interpolation: Interpolation;
+  edge: EdgeMode;
+};
+
+// Affine transform about the image center, optionally repeated N×M times.
+// Each output pixel is mapped back through the inverse transform and sampled.
+export function transformImage(img: ImageData, o: TransformOptions): ImageData {
+  const { width, height } = img;
+  if (o.scaleX === 0 || o.scaleY === 0) throw new RangeError('Scale must not be zero');
+  const out = new Uint8ClampedArray(width * height * 4);
+  const cx = width / 2; const cy = height / 2;
+  const angle = (o.rotate * Math.PI) / 180;
+  const cos = Math.cos(angle); const sin = Math.sin(angle);
+  const sx = (o.flipX ? -1 : 1) / o.scaleX; const sy = (o.flipY ? -1 : 1) / o.scaleY;
+  const tx = o.translateX * width; const ty = o.translateY * height;
+  const tilesX = Math.max(1, Math.floor(o.tilesX)); const tilesY = Math.max(1, Math.floor(o.tilesY));
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // position inside one tile, stretched back to full image coordinates
+      const qx = (((x + 0.5) * tilesX) % width) - cx - tx;
+      const qy = (((y + 0.5) * tilesY) % height) - cy - ty;
+      // inverse rotation, then inverse scale/mirror
+      const rx = cos * qx + sin * qy;
+      const ry = -sin * qx + cos * qy;
+      sampleImage(img, cx + rx * sx, cy + ry * sy, o.interpolation, o.edge, out, (y * width + x) * 4);
+    }
+  }
+  return new ImageData(out, width, height);
+}
+
+// Convolution
+
+// Source column/row for every output position and kernel tap, resolved once
+// per pass so the inner loops don't repeat the edge-mode arithmetic
+function edgeLookup(size: number, radius: number, edge: EdgeMode): Int32Array {
+  const span = radius * 2 + 1;
+  const lut = new Int32Array(size * span);
+  for (let i = 0; i < size; i++) {
+    for (let k = 0; k < span; k++) lut[i * span + k] = edgeIndex(i + k - radius, size, edge);
+  }
+  return lut;
+}
+
+// Filters work on color multiplied by alpha, as floats, so transparent pixels
+// don't pull their neighbours' color toward black
+function premultiply(data: Uint8ClampedArray): Float32Array {
+  const out = new Float32Array(data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const a = data[i + 3] / 255;
+    out[i] = data[i] * a; out[i + 1] = data[i + 1] * a; out[i + 2] = data[i + 2] * a; out[i + 3] = data[i + 3];
+  }
+  return out;
+}
+
+function unpremultiply(data: Float32Array, width: number, height: number): ImageData {
+  const out = new Uint8ClampedArray(data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const a = data[i + 3];
+    if (a <= 0) continue;
+    out[i] = (data[i] * 255) / a; out[i + 1] = (data[i + 1] * 255) / a; out[i + 2] = (data[i + 2] * 255) / a; out[i + 3] = a;
+  }
+  return new ImageData(out, width, height);
+}
+
+// One 1-D pass of a separable filter along x or y over premultiplied pixels
+function convolveAxis(data: Float32Array, width: number, height: number, kernel: number[], axis: 'x' | 'y', edge: EdgeMode): Float32Array {
+  const radius = (kernel.length - 1) / 2;
+  const span = kernel.length;
+  const lut = edgeLookup(axis === 'x' ? width : height, radius, edge);
+  const out = new Float32Array(data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      const base = (axis === 'x' ? x : y) * span;
+      for (let k = 0; k < span; k++) {
+        const src = lut[base + k];
+        if (src < 0) continue;
+        const s = (axis === 'x' ? y * width + src : src * width + x) * 4;
+        const w = kernel[k];
+        r += data[s] * w; g += data[s + 1] * w; b += data[s + 2] * w; a += data[s + 3] * w;
+      }
+      const idx = (y * width + x) * 4;
+      out[idx] = r; out[idx + 1] = g; out[idx + 2] = b; out[idx + 3] = a;
+    }
+  }
+  return out;
+}
+
+export function convolveSeparable(img: ImageData, kernelX: number[], kernelY: number[], edge: EdgeMode): ImageData {
+  const { width, height } = img;
+  const pass = convolveAxis(premultiply(img.data), width, height, kernelX, 'x', edge);
+  return unpremultiply(convolveAxis(pass, width, height, kernelY, 'y', edge), width, height);
+}
+
+export type ConvolveOptions = {
+  edge: EdgeMode;
+  // added to each color channel after weighting, in 0..255 units
+  bias?: number;
+  // alpha is filtered too unless preserved
+  preserveAlpha?: boolean;
+};
+
+// General N×N convolution; `kernel` is row-major with odd N
+export function convolve(img: ImageData, kernel: number[], size: number, o: ConvolveOptions): ImageData {
+  if (size % 2 !== 1 || kernel.length !== size * size) throw new RangeError(`Kernel must be N×N with odd N (got ${kernel.length} values for N=${size})`);
+  const { width, height } = img;
+  const data = premultiply(img.data);
+  const radius = (size - 1) / 2;
+  const lutX = edgeLookup(width, radius, o.edge);
+  const lutY = edgeLookup(height, radius, o.edge);
+  const bias = o.bias ?? 0;
+  const out = new Uint8ClampedArray(data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let j = 0; j < size; j++) {
+        const sy = lutY[y * size + j];
+        if (sy < 0) continue;
+        for (let i = 0; i < size; i++) {
+          const sx = lutX[x * size + i];
+          if (sx < 0) continue;
+          const w = kernel[j * size + i];
+          if (w === 0) continue;
+          const s = (sy * width + sx) * 4;
+          r += data[s] * w; g += data[s + 1] * w; b += data[s + 2] * w; a += data[s + 3] * w;
+        }
+      }
+      const idx = (y * width + x) * 4;
+      const alpha = o.preserveAlpha ? data[idx + 3] : a;
+      if (alpha <= 0) continue;
+      out[idx] = (r * 255) / alpha + bias; out[idx + 1] = (g * 255) / alpha + bias; out[idx + 2] = (b * 255) / alpha + bias;
+      out[idx + 3] = alpha;
+    }
+  }
+  return new ImageData(out, width, height);
+}
+
+export function normalizeKernel(kernel: number[]): number[] {
+  const sum = kernel.reduce((s, v) => s + v, 0);
+  return sum === 0 ? kernel : kernel.map(v => v / sum);
+}
+
+export function gaussianKernel(sigma: number): number[] {
+  const radius = Math.max(1, Math.ceil(sigma * 3));
+  const kernel: number[] = [];
+  for (let i = -radius; i <= radius; i++) kernel.push(Math.exp(-(i * i) / (2 * sigma * sigma)));
+  return normalizeKernel(kernel);
+}
+
+// `radius` is the Gaussian's standard deviation in pixels
+export function gaussianBlur(img: ImageData, radius: number, edge: EdgeMode): ImageData {
+  if (radius <= 0) return img;
+  const kernel = gaussianKernel(radius);
+  return convolveSeparable(img, kernel, kernel, edge);
+}
+
+export function boxBlur(img: ImageData, radius: number, edge: EdgeMode): ImageData {
+  const r = Math.round(radius);
+  if (r <= 0) return img;
+  const kernel = new Array(r * 2 + 1).fill(1 / (r * 2 + 1));
+  return convolveSeparable(img, kernel, kernel, edge);
+}
+
+// Adds back `amount` times the difference to a Gaussian blur wherever that
+// difference exceeds `threshold` (0..255)
+export function unsharpMask(img: ImageData, radius: number, amount: number, threshold: number, edge: EdgeMode): ImageData {
+  const blurred = gaussianBlur(img, radius, edge);
+  const src = img.data; const bd = blurred.data;
+  const out = new Uint8ClampedArray(src.length);
+  for (let i = 0; i < src.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const diff = src[i + c] - bd[i + c];
+      out[i + c] = Math.abs(diff) >= threshold ? src[i + c] + diff * amount : src[i + c];
+    }
+    out[i + 3] = src[i + 3];
+  }
+  return new ImageData(out, img.width, img.height);
+}
 
-    // opacity mix over A
-    out[idx] = Math.round(ad[idx] * (1 - opacity) + r * opacity);
-    out[idx + 1] = Math.round(ad[idx + 1] * (1 - opacity) + g * opacity);
-    out[idx + 2] = Math.round(ad[idx + 2] * (1 - opacity) + bl * opacity);
-    out[idx + 3] = Math.round(aOut * 255);
+function luminanceImage(img: ImageData): ImageData {
+  const src = img.data;
+  const out = new Uint8ClampedArray(src.length);
+  for (let i = 0; i < src.length; i += 4) {
+    const l = luminance(src[i], src[i + 1], src[i + 2]);
+    out[i] = l; out[i + 1] = l; out[i + 2] = l; out[i + 3] = src[i + 3];
   }
+  return new ImageData(out, img.width, img.height);
+}
 
+export type EdgeOperator = 'sobel' | 'laplacian';
+
+// Edge strength of the luminance as a grayscale image
+export function detectEdges(img: ImageData, operator: EdgeOperator, strength: number, edge: EdgeMode): ImageData {
+  const { width, height } = img;
+  const lum = luminanceImage(img).data;
+  const radius = 1;
+  const lutX = edgeLookup(width, radius, edge);
+  const lutY = edgeLookup(height, radius, edge);
+  const out = new Uint8ClampedArray(lum.length);
+  const sample = (x: number, y: number, i: number, j: number) => {
+    const sx = lutX[x * 3 + i]; const sy = lutY[y * 3 + j];
+    if (sx < 0 || sy < 0) return 0;
+    // premultiplied, so the outline of a shape counts as an edge and the
+    // color hidden under transparent pixels doesn't
+    const s = (sy * width + sx) * 4;
+    return (lum[s] * lum[s + 3]) / 255;
+  };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let v: number;
+      if (operator === 'sobel') {
+        const gx = -sample(x, y, 0, 0) - 2 * sample(x, y, 0, 1) - sample(x, y, 0, 2) + sample(x, y, 2, 0) + 2 * sample(x, y, 2, 1) + sample(x, y, 2, 2);
+        const gy = -sample(x, y, 0, 0) - 2 * sample(x, y, 1, 0) - sample(x, y, 2, 0) + sample(x, y, 0, 2) + 2 * sample(x, y, 1, 2) + sample(x, y, 2, 2);
+        v = Math.sqrt(gx * gx + gy * gy) / 4;
+      } else {
+        v = Math.abs(4 * sample(x, y, 1, 1) - sample(x, y, 0, 1) - sample(x, y, 2, 1) - sample(x, y, 1, 0) - sample(x, y, 1, 2));
+      }
+      const idx = (y * width + x) * 4;
+      const val = v * strength;
+      out[idx] = val; out[idx + 1] = val; out[idx + 2] = val; out[idx + 3] = 255;
+    }
+  }
   return new ImageData(out, width, height);
 }
+
+// Relief lit from `angle` degrees; flat areas come out mid-gray
+export function emboss(img: ImageData, angle: number, strength: number, edge: EdgeMode): ImageData {
+  const a = (angle * Math.PI) / 180;
+  const dx = Math.cos(a); const dy = -Math.sin(a);
+  const kernel = [
+    -dx - dy, -dy, dx - dy,
+    -dx, 0, dx,
+    -dx + dy, dy, dx + dy,
+  ].map(v => (v * strength) / 3);
+  return convolve(luminanceImage(img), kernel, 3, { edge, bias: 128, preserveAlpha: true });
+}
+
+// Color adjustment
+
+export type ChannelLut = Uint8ClampedArray;
+
+function buildLut(fn: (v: number) => number): ChannelLut {
+  const lut = new Uint8ClampedArray(256);
+  for (let i = 0; i < 256; i++) lut[i] = Math.round(fn(i));
+  return lut;
+}
+
+// Run every color channel through a lookup table; alpha is untouched
+export function applyLuts(img: ImageData, r: ChannelLut, g: ChannelLut = r, b: ChannelLut = r): ImageData {
+  const src = img.data;
+  const out = new Uint8ClampedArray(src.length);
+  for (let i = 0; i < src.length; i += 4) {
+    out[i] = r[src[i]]; out[i + 1] = g[src[i + 1]]; out[i + 2] = b[src[i + 2]]; out[i + 3] = src[i + 3];
+  }
+  return new ImageData(out, img.width, img.height);
+}
+
+export type Levels = { inBlack: number; inWhite: number; gamma: number; outBlack: number; outWhite: number };
+
+export function levelsLut(l: Levels): ChannelLut {
+  if (l.inWhite <= l.inBlack) throw new RangeError('Input white must be above input black');
+  if (l.gamma <= 0) throw new RangeError('Gamma must be positive');
+  return buildLut(v => {
+    const t = Math.min(1, Math.max(0, (v - l.inBlack) / (l.inWhite - l.inBlack)));
+    return l.outBlack + Math.pow(t, 1 / l.gamma) * (l.outWhite - l.outBlack);
+  });
+}
+
+export function applyLevels(img: ImageData, levels: Levels): ImageData {
+  return applyLuts(img, levelsLut(levels));
+}
+
+// Curve control points in 0..1, sorted by x
+export type CurvePoints = [number, number][];
+export type Curves = { rgb: CurvePoints; r: CurvePoints; g: CurvePoints; b: CurvePoints };
+
+// Monotone cubic (Fritsch–Carlson) through the points, so curves never
+// overshoot between control points
+export function evaluateCurve(points: CurvePoints, x: number): number {
+  const pts = [...points].sort((p, q) => p[0] - q[0]);
+  const n = pts.length;
+  if (n === 0) return x;
+  if (x <= pts[0][0]) return pts[0][1];
+  if (x >= pts[n - 1][0]) return pts[n - 1][1];
+  const d: number[] = [];
+  for (let i = 0; i < n - 1; i++) d.push((pts[i + 1][1] - pts[i][1]) / (pts[i + 1][0] - pts[i][0] || 1e-6));
+  const m: number[] = [d[0]];
+  for (let i = 1; i < n - 1; i++) m.push(d[i - 1] * d[i] <= 0 ? 0 : (d[i - 1] + d[i]) / 2);
+  m.push(d[n - 2]);
+  for (let i = 0; i < n - 1; i++) {
+    if (d[i] === 0) { m[i] = 0; m[i + 1] = 0; continue; }
+    const a = m[i] / d[i]; const b = m[i + 1] / d[i];
+    const h = a * a + b * b;
+    if (h > 9) { const t = 3 / Math.sqrt(h); m[i] = t * a * d[i]; m[i + 1] = t * b * d[i]; }
+  }
+  let k = 0;
+  while (x > pts[k + 1][0]) k++;
+  const h = pts[k + 1][0] - pts[k][0];
+  const t = (x - pts[k][0]) / h;
+  const t2 = t * t; const t3 = t2 * t;
+  return (2 * t3 - 3 * t2 + 1) * pts[k][1] + (t3 - 2 * t2 + t) * h * m[k] + (-2 * t3 + 3 * t2) * pts[k + 1][1] + (t3 - t2) * h * m[k + 1];
+}
+
+export function curveLut(points: CurvePoints): ChannelLut {
+  return buildLut(v => Math.min(1, Math.max(0, evaluateCurve(points, v / 255))) * 255);
+}
+
+// The master (rgb) curve is applied first, then each channel's own curve
+export function applyCurves(img: ImageData, curves: Curves): ImageData {
+  const master = curveLut(curves.rgb);
+  const chain = (points: CurvePoints) => { const lut = curveLut(points); return buildLut(v => lut[master[v]]); };
+  return applyLuts(img, chain(curves.r), chain(curves.g), chain(curves.b));
+}
+
+function rgbToHsv(r: number, g: number, b: number): [number, number, number] {
+  const max = Math.max(r, g, b); const min = Math.min(r, g, b);
+  const d = max - min;
+  let h = 0;
+  if (d > 0) {
+    if (max === r) h = ((g - b) / d) % 6;
+    else if (max === g) h = (b - r) / d + 2;
+    else h = (r - g) / d + 4;
+    h *= 60;
+    if (h < 0) h += 360;
+  }
+  return [h, max === 0 ? 0 : d / max, max / 255];
+}
+
+function hsvToRgb(h: number, s: number, v: number): [number, number, number] {
+  const c = v * s; const x = c * (1 - Math.abs(((h / 60) % 2) - 1)); const m = v - c;
+  let r = 0, g = 0, b = 0;
+  if (h < 60) [r, g, b] = [c, x, 0];
+  else if (h < 120) [r, g, b] = [x, c, 0];
+  else if (h < 180) [r, g, b] = [0, c, x];
+  else if (h < 240) [r, g, b] = [0, x, c];
+  else if (h < 300) [r, g, b] = [x, 0, c];
+  else [r, g, b] = [c, 0, x];
+  return [(r + m) * 255, (g + m) * 255, (b + m) * 255];
+}
+
+// Rotate hue by `hueShift` degrees and scale saturation and value
+export function adjustHsv(img: ImageData, hueShift: number, saturation: number, value: number): ImageData {
+  const src = img.data;
+  const out = new Uint8ClampedArray(src.length);
+  for (let i = 0; i < src.length; i += 4) {
+    const [h, s, v] = rgbToHsv(src[i], src[i + 1], src[i + 2]);
+    const hh = (((h + hueShift) % 360) + 360) % 360;
+    const [r, g, b] = hsvToRgb(hh, Math.min(1, s * saturation), Math.min(1, v * value));
+    out[i] = r; out[i + 1] = g; out[i + 2] = b; out[i + 3] = src[i + 3];
+  }
+  return new ImageData(out, img.width, img.height);
+}
+
+// brightness and contrast in -1..1
+export function brightnessContrast(img: ImageData, brightness: number, contrast: number): ImageData {
+  const factor = contrast >= 0 ? 1 / Math.max(1e-3, 1 - contrast) : 1 + contrast;
+  return applyLuts(img, buildLut(v => (v - 127.5) * factor + 127.5 + brightness * 255));
+}
+
+export function invertImage(img: ImageData): ImageData {
+  return applyLuts(img, buildLut(v => 255 - v));
+}
+
+// Luminance above `level` (0..255) becomes white, the rest black
+export function thresholdImage(img: ImageData, level: number): ImageData {
+  const src = img.data;
+  const out = new Uint8ClampedArray(src.length);
+  for (let i = 0; i < src.length; i += 4) {
+    const v = luminance(src[i], src[i + 1], src[i + 2]) >= level ? 255 : 0;
+    out[i] = v; out[i + 1] = v; out[i + 2] = v; out[i + 3] = src[i + 3];
+  }
+  return new ImageData(out, img.width, img.height);
+}
+
+export function posterizeImage(img: ImageData, levels: number): ImageData {
+  const n = Math.max(2, Math.round(levels));
+  return applyLuts(img, buildLut(v => (Math.round((v / 255) * (n - 1)) / (n - 1)) * 255));
+}
+
+export type GradientStop = { position: number; color: string };
+
+// 256-entry RGB ramp through the stops
+export function rampLut(stops: GradientStop[]): [ChannelLut, ChannelLut, ChannelLut] {
+  if (!stops.length) throw new RangeError('Gradient needs at least one stop');
+  const sorted = [...stops].sort((a, b) => a.position - b.position).map(s => ({ position: s.position, ...colorHexToRgb(s.color) }));
+  const channel = (key: 'r' | 'g' | 'b') => buildLut(v => {
+    const t = v / 255;
+    if (t <= sorted[0].position) return sorted[0][key];
+    for (let i = 0; i < sorted.length - 1; i++) {
+      const a = sorted[i]; const b = sorted[i + 1];
+      if (t <= b.position) {
+        const f = b.position > a.position ? (t - a.position) / (b.position - a.position) : 1;
+        return a[key] + (b[key] - a[key]) * f;
+      }
+    }
+    return sorted[sorted.length - 1][key];
+  });
+  return [channel('r'), channel('g'), channel('b')];
+}
+
+// Map luminance through a multi-stop color ramp
+export function gradientMap(img: ImageData, stops: GradientStop[]): ImageData {
+  const [lr, lg, lb] = rampLut(stops);
+  const src = img.data;
+  const out = new Uint8ClampedArray(src.length);
+  for (let i = 0; i < src.length; i += 4) {
+    const l = Math.round(luminance(src[i], src[i + 1], src[i + 2]));
+    out[i] = lr[l]; out[i + 1] = lg[l]; out[i + 2] = lb[l]; out[i + 3] = src[i + 3];
+  }
+  return new ImageData(out, img.width, img.height);
+}
+
+// Noise
+
+export type NoiseBasis = 'perlin' | 'value' | 'simplex';
+export type FractalMode = 'fbm' | 'turbulence' | 'ridged';
+export type CellularFeature = 'f1' | 'f2' | 'f2-f1';
+export type DistanceMetric = 'euclidean' | 'manhattan' | 'chebyshev';
+
+export type FractalOptions = {
+  // size of a first-octave cell in pixels
+  scale: number;
+  seed: number;
+  octaves: number;
+  lacunarity: number;
+  gain: number;
+  mode: FractalMode;
+  // wrap seamlessly at the image edges
+  tile: boolean;
+};
+
+// Permutation, values and gradients of one octave, drawn from its own seed
+type Lattice = { perm: Uint8Array; values: Float32Array; gx: Float32Array; gy: Float32Array };
+
+function makeLattice(seed: number): Lattice {
+  const rand = mulberry32(seed >>> 0);
+  const perm = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) perm[i] = i;
+  for (let i = 255; i > 0; i--) {
+    const j = Math.floor(rand() * (i + 1));
+    [perm[i], perm[j]] = [perm[j], perm[i]];
+  }
+  const values = new Float32Array(256); const gx = new Float32Array(256); const gy = new Float32Array(256);
+  for (let i = 0; i < 256; i++) {
+    values[i] = rand() * 2 - 1;
+    const angle = rand() * Math.PI * 2;
+    gx[i] = Math.cos(angle); gy[i] = Math.sin(angle);
+  }
+  return { perm, values, gx, gy };
+}
+
+// Lattice period is 0 when not tiling
+const wrapCell = (i: number, period: number) => (period > 0 ? ((i % period) + period) % period : i);
+const hash2 = (l: Lattice, x: number, y: number) => l.perm[(l.perm[x & 255] + y) & 255];
+const fade = (t: number) => t * t * t * (t * (t * 6 - 15) + 10);
+const mix = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// Interpolates per-corner values of the cell around (x, y)
+function latticeNoise(x: number, y: number, px: number, py: number, corner: (ix: number, iy: number, dx: number, dy: number) => number): number {
+  const x0 = Math.floor(x); const y0 = Math.floor(y);
+  const dx = x - x0; const dy = y - y0;
+  const xa = wrapCell(x0, px); const xb = wrapCell(x0 + 1, px);
+  const ya = wrapCell(y0, py); const yb = wrapCell(y0 + 1, py);
+  const u = fade(dx); const v = fade(dy);
+  return mix(mix(corner(xa, ya, dx, dy), corner(xb, ya, dx - 1, dy), u), mix(corner(xa, yb, dx, dy - 1), corner(xb, yb, dx - 1, dy - 1), u), v);
+}
+
+function perlin2(l: Lattice, x: number, y: number, px: number, py: number): number {
+  return latticeNoise(x, y, px, py, (ix, iy, dx, dy) => { const h = hash2(l, ix, iy); return l.gx[h] * dx + l.gy[h] * dy; }) * Math.SQRT2;
+}
+
+function value2(l: Lattice, x: number, y: number, px: number, py: number): number {
+  return latticeNoise(x, y, px, py, (ix, iy) => l.values[hash2(l, ix, iy)]);
+}
+
+const F2 = (Math.sqrt(3) - 1) / 2; const G2 = (3 - Math.sqrt(3)) / 6;
+
+function simplex2(l: Lattice, x: number, y: number): number {
+  const s = (x + y) * F2;
+  const i = Math.floor(x + s); const j = Math.floor(y + s);
+  const t = (i + j) * G2;
+  const x0 = x - (i - t); const y0 = y - (j - t);
+  const [i1, j1] = x0 > y0 ? [1, 0] : [0, 1];
+  let n = 0;
+  for (const [ox, oy] of [[0, 0], [i1, j1], [1, 1]]) {
+    const dx = x0 - ox + (ox + oy) * G2; const dy = y0 - oy + (ox + oy) * G2;
+    const a = 0.5 - dx * dx - dy * dy;
+    if (a <= 0) continue;
+    const h = hash2(l, i + ox, j + oy);
+    n += a * a * a * a * (l.gx[h] * dx + l.gy[h] * dy);
+  }
+  return n * 99;
+}
+
+// 4D simplex noise, used to tile simplex noise by walking a torus
+const F4 = (Math.sqrt(5) - 1) / 4; const G4 = (5 - Math.sqrt(5)) / 20;
+// the 32 edge midpoints of a tesseract: one zero and three ±1 components
+const GRAD4: number[][] = [];
+for (let zero = 0; zero < 4; zero++) {
+  for (let signs = 0; signs < 8; signs++) {
+    const g: number[] = [0, 0, 0].map((_, k) => ((signs >> k) & 1 ? -1 : 1));
+    g.splice(zero, 0, 0);
+    GRAD4.push(g);
+  }
+}
+
+function simplex4(l: Lattice, x: number, y: number, z: number, w: number): number {
+  const s = (x + y + z + w) * F4;
+  const cell = [x, y, z, w].map(c => Math.floor(c + s));
+  const t = (cell[0] + cell[1] + cell[2] + cell[3]) * G4;
+  const d0 = [x, y, z, w].map((c, k) => c - (cell[k] - t));
+  // rank of each axis decides which simplex of the hypercube we're in
+  const rank = [0, 0, 0, 0];
+  for (let a = 0; a < 4; a++) {
+    for (let b = a + 1; b < 4; b++) rank[d0[a] > d0[b] ? a : b]++;
+  }
+  let n = 0;
+  for (let c = 0; c <= 4; c++) {
+    const offset = rank.map(r => (r >= 4 - c ? 1 : 0));
+    const d = d0.map((v, k) => v - offset[k] + c * G4);
+    const a = 0.6 - d[0] * d[0] - d[1] * d[1] - d[2] * d[2] - d[3] * d[3];
+    if (a <= 0) continue;
+    const p = l.perm;
+    const h = p[(p[(p[(p[(cell[0] + offset[0]) & 255] + cell[1] + offset[1]) & 255] + cell[2] + offset[2]) & 255] + cell[3] + offset[3]) & 255];
+    const g = GRAD4[h & 31];
+    n += a * a * a * a * (g[0] * d[0] + g[1] * d[1] + g[2] * d[2] + g[3] * d[3]);
+  }
+  return n * 27;
+}
+
+function cellular2(l: Lattice, x: number, y: number, px: number, py: number, feature: CellularFeature, metric: DistanceMetric, jitter: number): number {
+  const x0 = Math.floor(x); const y0 = Math.floor(y);
+  let f1 = Infinity; let f2 = Infinity;
+  for (let j = -1; j <= 1; j++) {
+    for (let i = -1; i <= 1; i++) {
+      const h = hash2(l, wrapCell(x0 + i, px), wrapCell(y0 + j, py));
+      // one feature point per cell, pulled towards the centre as jitter drops
+      const dx = Math.abs(x0 + i + 0.5 + l.values[h] * 0.5 * jitter - x);
+      const dy = Math.abs(y0 + j + 0.5 + l.values[l.perm[h]] * 0.5 * jitter - y);
+      const d = metric === 'manhattan' ? dx + dy : metric === 'chebyshev' ? Math.max(dx, dy) : Math.sqrt(dx * dx + dy * dy);
+      if (d < f1) { f2 = f1; f1 = d; } else if (d < f2) f2 = d;
+    }
+  }
+  const d = feature === 'f1' ? f1 : feature === 'f2' ? f2 * 0.75 : f2 - f1;
+  return Math.min(1, d) * 2 - 1;
+}
+
+// Sums octaves of `sample`, which gets lattice coordinates plus the lattice
+// period in cells (0 when not tiling) and returns roughly -1..1. When tiling,
+// every octave is rounded to a whole number of cells across the image.
+function fractalImage(width: number, height: number, o: FractalOptions, sample: (l: Lattice, x: number, y: number, px: number, py: number) => number): ImageData {
+  if (!(o.scale > 0)) throw new RangeError('Scale must be positive');
+  const octaves = Math.max(1, Math.min(12, Math.round(o.octaves)));
+  const layers = Array.from({ length: octaves }, (_, k) => {
+    const freq = Math.pow(o.lacunarity, k) / o.scale;
+    const px = o.tile ? Math.max(1, Math.round(width * freq)) : 0;
+    const py = o.tile ? Math.max(1, Math.round(height * freq)) : 0;
+    return { lattice: makeLattice(o.seed + k * 7919), fx: o.tile ? px / width : freq, fy: o.tile ? py / height : freq, px, py, amp: Math.pow(o.gain, k) };
+  });
+  const total = layers.reduce((sum, layer) => sum + layer.amp, 0) || 1;
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (const layer of layers) {
+        const n = sample(layer.lattice, x * layer.fx, y * layer.fy, layer.px, layer.py);
+        sum += layer.amp * (o.mode === 'turbulence' ? Math.abs(n) : o.mode === 'ridged' ? (1 - Math.abs(n)) ** 2 : n * 0.5 + 0.5);
+      }
+      const val = Math.round((sum / total) * 255);
+      const idx = (y * width + x) * 4;
+      data[idx] = val; data[idx + 1] = val; data[idx + 2] = val; data[idx + 3] = 255;
+    }
+  }
+  return new ImageData(data, width, height);
+}
+
+export function generateFractalNoise(width: number, height: number, basis: NoiseBasis, options: FractalOptions): ImageData {
+  switch (basis) {
+    case 'perlin': return fractalImage(width, height, options, perlin2);
+    case 'value': return fractalImage(width, height, options, value2);
+    case 'simplex':
+      if (!options.tile) return fractalImage(width, height, options, (l, x, y) => simplex2(l, x, y));
+      // simplex cells aren't axis aligned, so a tiling version maps each axis
+      // onto a circle in 4D instead of wrapping the lattice
+      return fractalImage(width, height, options, (l, x, y, px, py) => {
+        const a = (x / px) * Math.PI * 2; const b = (y / py) * Math.PI * 2;
+        const rx = px / (Math.PI * 2); const ry = py / (Math.PI * 2);
+        return simplex4(l, rx * Math.cos(a), rx * Math.sin(a), ry * Math.cos(b), ry * Math.sin(b));
+      });
+  }
+}
+
+export function generateCellularNoise(width: number, height: number, feature: CellularFeature, metric: DistanceMetric, jitter: number, options: FractalOptions): ImageData {
+  return fractalImage(width, height, options, (l, x, y, px, py) => cellular2(l, x, y, px, py, feature, metric, jitter));
+}
+
+// Decoding
+
+// Decode a PNG/JPEG/WebP data URL with the browser's codecs. Works on the
+// main thread and in workers.
+export async function decodeImageData(src: string): Promise<ImageData> {
+  const blob = await (await fetch(src)).blob();
+  const bitmap = await createImageBitmap(blob, { premultiplyAlpha: 'none', colorSpaceConversion: 'none' });
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('2D canvas is not available');
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+// Channels
+
+export type Channel = 'r' | 'g' | 'b' | 'a' | 'luminance';
+
+// One channel as an opaque grayscale image
+export function extractChannel(img: ImageData, channel: Channel): ImageData {
+  const src = img.data;
+  const out = new Uint8ClampedArray(src.length);
+  const offset = { r: 0, g: 1, b: 2, a: 3, luminance: -1 }[channel];
+  for (let i = 0; i < src.length; i += 4) {
+    const v = offset < 0 ? Math.round(luminance(src[i], src[i + 1], src[i + 2])) : src[i + offset];
+    out[i] = v; out[i + 1] = v; out[i + 2] = v; out[i + 3] = 255;
+  }
+  return new ImageData(out, img.width, img.height);
+}
+
+// Build an image from single-channel inputs (read from their red channel).
+// Missing color channels are 0 and a missing alpha is opaque.
+export function mergeChannels(channels: { r?: ImageData | null; g?: ImageData | null; b?: ImageData | null; a?: ImageData | null }, width: number, height: number): ImageData {
+  const sources = [channels.r, channels.g, channels.b, channels.a];
+  for (const s of sources) {
+    if (s && (s.width !== width || s.height !== height)) throw new RangeError(`Channel size ${s.width}×${s.height} doesn't match ${width}×${height}`);
+  }
+  const out = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < out.length; i += 4) {
+    for (let c = 0; c < 4; c++) {
+      const s = sources[c];
+      out[i + c] = s ? s.data[i] : c === 3 ? 255 : 0;
+    }
+  }
+  return new ImageData(out, width, height);
+}
+
+// Replace alpha with a mask's luminance, so a color image connected as the
+// mask works as well as a grayscale one
+export function setAlpha(img: ImageData, mask: ImageData): ImageData {
+  if (mask.width !== img.width || mask.height !== img.height) throw new RangeError(`Mask size ${mask.width}×${mask.height} doesn't match ${img.width}×${img.height}`);
+  const out = new Uint8ClampedArray(img.data);
+  const m = mask.data;
+  for (let i = 0; i < out.length; i += 4) out[i + 3] = Math.round(luminance(m[i], m[i + 1], m[i + 2]));
+  return new ImageData(out, img.width, img.height);
+}
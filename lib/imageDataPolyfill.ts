@@ -0,0 +1,23 @@
+// Node has no ImageData; the image routines only need the plain fields.
+// Imported for its side effect by server code and the unit tests.
+if (typeof globalThis.ImageData === 'undefined') {
+  (globalThis as any).ImageData = class ImageData {
+    readonly colorSpace = 'srgb';
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+    constructor(data: Uint8ClampedArray | number, width: number, height?: number) {
+      if (typeof data === 'number') {
+        this.data = new Uint8ClampedArray(data * width * 4);
+        this.width = data;
+        this.height = width;
+      } else {
+        this.data = data;
+        this.width = width;
+        this.height = height ?? data.length / 4 / width;
+      }
+    }
+  };
+}
+
+export {};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { differenceImage, hexColor, histogram, pixelAt } from '@/lib/inspect';
+
+// 2×1: opaque red, half-transparent gray
+const img = new ImageData(new Uint8ClampedArray([255, 0, 0, 255, 100, 100, 100, 128]), 2, 1);
+
+describe('histogram', () => {
+  it('bins every channel and summarizes it', () => {
+    const { bins, stats, pixels } = histogram(img);
+    expect(pixels).toBe(2);
+    expect([bins.r[255], bins.r[100], bins.g[0], bins.a[128]]).toEqual([1, 1, 1, 1]);
+    expect(bins.luminance[54]).toBe(1);
+    expect(bins.luminance[100]).toBe(1);
+    expect(stats.r).toEqual({ min: 100, max: 255, mean: 177.5 });
+    expect(stats.luminance).toEqual({ min: 54, max: 100, mean: 77 });
+  });
+
+  it('reports zeros for an empty image', () => {
+    expect(histogram(new ImageData(new Uint8ClampedArray(0), 0, 0)).stats.a).toEqual({ min: 0, max: 0, mean: 0 });
+  });
+});
+
+describe('pixelAt', () => {
+  it('reads RGBA inside the image and null outside it', () => {
+    expect(pixelAt(img, 1, 0)).toEqual([100, 100, 100, 128]);
+    expect(hexColor(pixelAt(img, 0, 0)!)).toBe('#ff0000');
+    expect(pixelAt(img, 2, 0)).toBeNull();
+    expect(pixelAt(img, 0, -1)).toBeNull();
+  });
+});
+
+describe('differenceImage', () => {
+  it('is black for identical images and folds alpha into the color difference', () => {
+    expect(Array.from(differenceImage(img, img).data)).toEqual([0, 0, 0, 255, 0, 0, 0, 255]);
+    const other = new ImageData(new Uint8ClampedArray([250, 0, 0, 255, 100, 100, 100, 255]), 2, 1);
+    expect(Array.from(differenceImage(img, other, 4).data)).toEqual([20, 0, 0, 255, 255, 255, 255, 255]);
+  });
+
+  it('covers only the area both images share', () => {
+    const tall = new ImageData(new Uint8ClampedArray(4 * 3), 1, 3);
+    const diff = differenceImage(img, tall);
+    expect([diff.width, diff.height]).toEqual([1, 1]);
+  });
+});
@@ -0,0 +1,78 @@
+// Pixel-level analysis for the image inspector: histograms with summary
+// statistics, pixel lookups and difference images for comparing outputs.
+
+import { Channel, luminance } from '@/lib/image';
+
+export const CHANNELS: Channel[] = ['r', 'g', 'b', 'a', 'luminance'];
+
+export type ChannelStats = { min: number; max: number; mean: number };
+
+// 256 bins per channel
+export type Histogram = { bins: Record<Channel, Uint32Array>; stats: Record<Channel, ChannelStats>; pixels: number };
+
+export type Rgba = [number, number, number, number];
+
+export function histogram(img: ImageData): Histogram {
+  const bins = Object.fromEntries(CHANNELS.map(c => [c, new Uint32Array(256)])) as Record<Channel, Uint32Array>;
+  const { r, g, b, a, luminance: l } = bins;
+  const src = img.data;
+  for (let i = 0; i < src.length; i += 4) {
+    r[src[i]]++;
+    g[src[i + 1]]++;
+    b[src[i + 2]]++;
+    a[src[i + 3]]++;
+    l[Math.round(luminance(src[i], src[i + 1], src[i + 2]))]++;
+  }
+  const pixels = img.width * img.height;
+  const stats = Object.fromEntries(CHANNELS.map(c => [c, binStats(bins[c], pixels)])) as Record<Channel, ChannelStats>;
+  return { bins, stats, pixels };
+}
+
+function binStats(bins: Uint32Array, pixels: number): ChannelStats {
+  if (!pixels) return { min: 0, max: 0, mean: 0 };
+  let min = 255;
+  let max = 0;
+  let sum = 0;
+  for (let v = 0; v < 256; v++) {
+    if (!bins[v]) continue;
+    min = Math.min(min, v);
+    max = Math.max(max, v);
+    sum += v * bins[v];
+  }
+  return { min, max, mean: sum / pixels };
+}
+
+// RGBA at integer pixel coordinates, or null outside the image
+export function pixelAt(img: ImageData, x: number, y: number): Rgba | null {
+  if (x < 0 || y < 0 || x >= img.width || y >= img.height) return null;
+  const i = (y * img.width + x) * 4;
+  return [img.data[i], img.data[i + 1], img.data[i + 2], img.data[i + 3]];
+}
+
+// Per-channel absolute difference over the area both images cover, scaled
+// by `gain` so small deviations become visible. The alpha difference is
+// folded into the color channels, so the result is always opaque.
+export function differenceImage(a: ImageData, b: ImageData, gain = 1): ImageData {
+  const width = Math.min(a.width, b.width);
+  const height = Math.min(a.height, b.height);
+  const out = new ImageData(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * a.width + x) * 4;
+      const j = (y * b.width + x) * 4;
+      const o = (y * width + x) * 4;
+      const da = Math.abs(a.data[i + 3] - b.data[j + 3]);
+      for (let c = 0; c < 3; c++) out.data[o + c] = Math.max(Math.abs(a.data[i + c] - b.data[j + c]), da) * gain;
+      out.data[o + 3] = 255;
+    }
+  }
+  return out;
+}
+
+export function formatRgba(p: Rgba): string {
+  return p.map(v => String(v).padStart(3, ' ')).join(' ');
+}
+
+export function hexColor([r, g, b]: Rgba): string {
+  return `#${[r, g, b].map(v => v.toString(16).padStart(2, '0')).join('')}`;
+}
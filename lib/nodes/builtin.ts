@@ -0,0 +1,202 @@
+import { BlendMode, CompositeOp, SizePolicy, blendImages, colorHexToRgb, createSolidImage, generateGradientImage, generatePerlinNoise, matchImageSizes, resizeImage } from '@/lib/image';
+import type { EvalContext, NodeDefinition, ParamSpec, Resolution } from '@/lib/nodes/types';
+
+// Generators either inherit the document resolution or set their own
+export type SizeParams = {
+  customSize: boolean;
+  width: number;
+  height: number;
+};
+
+export type CreateImageParams = SizeParams & {
+  color: string;
+};
+
+export type GradientParams = SizeParams & {
+  colorA: string;
+  colorB: string;
+  direction: 'horizontal' | 'vertical';
+};
+
+export type NoiseParams = SizeParams & {
+  scale: number;
+  seed: number;
+};
+
+export type CombineParams = {
+  mode: BlendMode;
+  composite: CompositeOp;
+  opacity: number;
+  sizing: SizePolicy;
+};
+
+// Display nodes are the graph's named outputs. An export size renders the
+// whole graph at that resolution instead of the document's.
+export type DisplayParams = {
+  name: string;
+  format: 'png' | 'jpeg' | 'webp';
+  // 0-100, for the lossy formats
+  quality: number;
+  customExportSize: boolean;
+  exportWidth: number;
+  exportHeight: number;
+};
+
+export const sizeParams: ParamSpec[] = [
+  { key: 'customSize', label: 'Custom Size', control: 'toggle', default: false },
+  { key: 'width', label: 'Width', control: 'number', default: 256, min: 1, max: 4096, step: 32, visible: p => p.customSize },
+  { key: 'height', label: 'Height', control: 'number', default: 256, min: 1, max: 4096, step: 32, visible: p => p.customSize },
+];
+
+// Size at the evaluation's proxy scale
+export function scaledSize({ width, height }: Resolution, ctx: EvalContext): Resolution {
+  return { width: Math.max(1, Math.round(width * ctx.scale)), height: Math.max(1, Math.round(height * ctx.scale)) };
+}
+
+export function outputSize(p: SizeParams, ctx: EvalContext): Resolution {
+  const { width, height } = p.customSize ? p : ctx.resolution;
+  if (!(width >= 1 && height >= 1)) throw new RangeError(`Invalid size ${width}×${height}`);
+  return scaledSize({ width: Math.round(width), height: Math.round(height) }, ctx);
+}
+
+const createImage: NodeDefinition<CreateImageParams> = {
+  id: 'createImage',
+  title: 'Create Image',
+  category: 'Generators',
+  // a connected color overrides the parameter
+  inputs: [{ id: 'color', label: 'Color', type: 'color', optional: true }],
+  outputs: [{ id: 'out', label: 'Image', type: 'image' }],
+  params: [
+    { key: 'color', label: 'Color', control: 'color', default: '#4f46e5' },
+    ...sizeParams,
+  ],
+  evaluate: (p, inputs, ctx) => {
+    const { width, height } = outputSize(p, ctx);
+    const { r, g, b } = colorHexToRgb((inputs.color as string | null) ?? p.color);
+    return { out: createSolidImage(width, height, r, g, b, 255) };
+  },
+};
+
+const gradient: NodeDefinition<GradientParams> = {
+  id: 'gradient',
+  title: 'Add Gradient',
+  category: 'Generators',
+  inputs: [],
+  outputs: [{ id: 'out', label: 'Image', type: 'image' }],
+  params: [
+    { key: 'colorA', label: 'Color A', control: 'color', default: '#7aa2f7' },
+    { key: 'colorB', label: 'Color B', control: 'color', default: '#a78bfa' },
+    { key: 'direction', label: 'Direction', control: 'select', default: 'horizontal', options: [{ value: 'horizontal', label: 'Horizontal' }, { value: 'vertical', label: 'Vertical' }] },
+    ...sizeParams,
+  ],
+  evaluate: (p, _, ctx) => {
+    const { width, height } = outputSize(p, ctx);
+    return { out: generateGradientImage(width, height, colorHexToRgb(p.colorA), colorHexToRgb(p.colorB), p.direction) };
+  },
+};
+
+const perlin: NodeDefinition<NoiseParams> = {
+  id: 'perlin',
+  title: 'Perlin Noise',
+  category: 'Generators',
+  inputs: [],
+  outputs: [{ id: 'out', label: 'Image', type: 'image' }],
+  params: [
+    { key: 'scale', label: 'Scale', control: 'number', default: 16, min: 2, max: 128, step: 1 },
+    { key: 'seed', label: 'Seed', control: 'number', default: () => Math.floor(Math.random() * 9999), min: 0, max: 9999, step: 1 },
+    ...sizeParams,
+  ],
+  evaluate: (p, _, ctx) => {
+    const { width, height } = outputSize(p, ctx);
+    // the gradient lattice is laid out for the full size, so a proxy draws
+    // the same noise
+    const full = outputSize(p, { ...ctx, scale: 1 });
+    const lattice = { columns: Math.ceil(full.width / p.scale), rows: Math.ceil(full.height / p.scale) };
+    return { out: generatePerlinNoise(width, height, p.scale * ctx.scale, p.seed, lattice) };
+  },
+};
+
+const combine: NodeDefinition<CombineParams> = {
+  id: 'combine',
+  title: 'Combine Images',
+  category: 'Composite',
+  inputs: [
+    { id: 'a', label: 'A', type: 'image', optional: true },
+    { id: 'b', label: 'B', type: 'image', optional: true },
+    { id: 'mask', label: 'Mask', type: 'mask', optional: true },
+  ],
+  outputs: [{ id: 'out', label: 'Image', type: 'image' }],
+  params: [
+    {
+      key: 'mode', label: 'Mode', control: 'select', default: 'add', options: [
+        { value: 'normal', label: 'Normal' },
+        { value: 'add', label: 'Add' },
+        { value: 'multiply', label: 'Multiply' },
+        { value: 'screen', label: 'Screen' },
+        { value: 'overlay', label: 'Overlay' },
+        { value: 'darken', label: 'Darken' },
+        { value: 'lighten', label: 'Lighten' },
+        { value: 'color-dodge', label: 'Color Dodge' },
+        { value: 'color-burn', label: 'Color Burn' },
+        { value: 'hard-light', label: 'Hard Light' },
+        { value: 'soft-light', label: 'Soft Light' },
+        { value: 'difference', label: 'Difference' },
+        { value: 'exclusion', label: 'Exclusion' },
+        { value: 'hue', label: 'Hue' },
+        { value: 'saturation', label: 'Saturation' },
+        { value: 'color', label: 'Color' },
+        { value: 'luminosity', label: 'Luminosity' },
+      ],
+    },
+    {
+      key: 'composite', label: 'Composite', control: 'select', default: 'over', options: [
+        { value: 'over', label: 'B over A' },
+        { value: 'in', label: 'B in A' },
+        { value: 'out', label: 'B out A' },
+        { value: 'atop', label: 'B atop A' },
+        { value: 'xor', label: 'B xor A' },
+      ],
+    },
+    { key: 'opacity', label: 'Opacity', control: 'range', default: 1, min: 0, max: 1, step: 0.05 },
+    {
+      key: 'sizing', label: 'Size Mismatch', control: 'select', default: 'resize-to-a', options: [
+        { value: 'resize-to-a', label: 'Resize to A' },
+        { value: 'resize-to-b', label: 'Resize to B' },
+        { value: 'crop', label: 'Crop/Pad to A' },
+      ],
+    },
+  ],
+  evaluate: (p, inputs, ctx) => {
+    if (!inputs.a && !inputs.b) ctx.warn('Connect at least one input');
+    const [a, b] = matchImageSizes(inputs.a as ImageData | null, inputs.b as ImageData | null, p.sizing);
+    const size = a || b;
+    const mask = inputs.mask && size ? resizeImage(inputs.mask as ImageData, size.width, size.height) : null;
+    return { out: blendImages(a, b, p.mode, p.opacity, p.composite, mask) };
+  },
+};
+
+const display: NodeDefinition<DisplayParams> = {
+  id: 'display',
+  title: 'Display Image',
+  category: 'Output',
+  inputs: [{ id: 'in', label: 'Image', type: 'image' }],
+  outputs: [],
+  params: [
+    { key: 'name', label: 'Name', control: 'text', default: 'image' },
+    {
+      key: 'format', label: 'Format', control: 'select', default: 'png', options: [
+        { value: 'png', label: 'PNG' },
+        { value: 'jpeg', label: 'JPEG' },
+        { value: 'webp', label: 'WebP' },
+      ],
+    },
+    { key: 'quality', label: 'Quality', control: 'range', default: 90, min: 1, max: 100, step: 1, visible: p => p.format !== 'png' },
+    { key: 'customExportSize', label: 'Export Size', control: 'toggle', default: false },
+    { key: 'exportWidth', label: 'Export Width', control: 'number', default: 1024, min: 1, max: 8192, step: 32, visible: p => p.customExportSize },
+    { key: 'exportHeight', label: 'Export Height', control: 'number', default: 1024, min: 1, max: 8192, step: 32, visible: p => p.customExportSize },
+  ],
+  previewPort: 'out',
+  evaluate: (_, inputs) => ({ out: inputs.in }),
+};
+
+export const builtinNodes: NodeDefinition[] = [createImage, gradient, perlin, combine, display];
@@ -0,0 +1,79 @@
+import { extractChannel, mergeChannels, resizeImage, setAlpha } from '@/lib/image';
+import { scaledSize } from '@/lib/nodes/builtin';
+import type { NodeDefinition } from '@/lib/nodes/types';
+
+const split: NodeDefinition = {
+  id: 'splitChannels',
+  title: 'Split Channels',
+  category: 'Channels',
+  inputs: [{ id: 'in', label: 'Image', type: 'image' }],
+  outputs: [
+    { id: 'r', label: 'R', type: 'mask' },
+    { id: 'g', label: 'G', type: 'mask' },
+    { id: 'b', label: 'B', type: 'mask' },
+    { id: 'a', label: 'A', type: 'mask' },
+    { id: 'luminance', label: 'Luminance', type: 'mask' },
+  ],
+  params: [],
+  evaluate: (_, inputs) => {
+    const img = inputs.in as ImageData;
+    return {
+      r: extractChannel(img, 'r'),
+      g: extractChannel(img, 'g'),
+      b: extractChannel(img, 'b'),
+      a: extractChannel(img, 'a'),
+      luminance: extractChannel(img, 'luminance'),
+    };
+  },
+};
+
+const merge: NodeDefinition = {
+  id: 'mergeChannels',
+  title: 'Merge Channels',
+  category: 'Channels',
+  inputs: [
+    { id: 'r', label: 'R', type: 'mask', optional: true },
+    { id: 'g', label: 'G', type: 'mask', optional: true },
+    { id: 'b', label: 'B', type: 'mask', optional: true },
+    { id: 'a', label: 'A', type: 'mask', optional: true },
+  ],
+  outputs: [{ id: 'out', label: 'Image', type: 'image' }],
+  params: [],
+  evaluate: (_, inputs, ctx) => {
+    const channels = ['r', 'g', 'b', 'a'].map(k => inputs[k] as ImageData | null);
+    // the first connected channel sets the size; the others are resized to it
+    const first = channels.find(Boolean);
+    if (!first) ctx.warn('Connect at least one channel');
+    const { width, height } = first ?? scaledSize(ctx.resolution, ctx);
+    const [r, g, b, a] = channels.map(c => (c ? resizeImage(c, width, height) : null));
+    return { out: mergeChannels({ r, g, b, a }, width, height) };
+  },
+};
+
+const setAlphaNode: NodeDefinition = {
+  id: 'setAlpha',
+  title: 'Set Alpha',
+  category: 'Channels',
+  inputs: [
+    { id: 'in', label: 'Image', type: 'image' },
+    { id: 'alpha', label: 'Alpha', type: 'mask' },
+  ],
+  outputs: [{ id: 'out', label: 'Image', type: 'image' }],
+  params: [],
+  evaluate: (_, inputs) => {
+    const img = inputs.in as ImageData;
+    return { out: setAlpha(img, resizeImage(inputs.alpha as ImageData, img.width, img.height)) };
+  },
+};
+
+const extractAlpha: NodeDefinition = {
+  id: 'extractAlpha',
+  title: 'Extract Alpha',
+  category: 'Channels',
+  inputs: [{ id: 'in', label: 'Image', type: 'image' }],
+  outputs: [{ id: 'out', label: 'Alpha', type: 'mask' }],
+  params: [],
+  evaluate: (_, inputs) => ({ out: extractChannel(inputs.in as ImageData, 'a') }),
+};
+
+export const channelNodes: NodeDefinition[] = [split, merge, setAlphaNode, extractAlpha];
@@ -0,0 +1,108 @@
+import { Curves, GradientStop, Levels, adjustHsv, applyCurves, applyLevels, brightnessContrast, gradientMap, invertImage, posterizeImage, thresholdImage } from '@/lib/image';
+import type { NodeDefinition, PortSpec } from '@/lib/nodes/types';
+
+const imageIn: PortSpec[] = [{ id: 'in', label: 'Image', type: 'image' }];
+const imageOut: PortSpec[] = [{ id: 'out', label: 'Image', type: 'image' }];
+
+const input = (inputs: Record<string, unknown>) => inputs.in as ImageData;
+const linear = (): [number, number][] => [[0, 0], [1, 1]];
+
+const levels: NodeDefinition<Levels> = {
+  id: 'levels',
+  title: 'Levels',
+  category: 'Color',
+  inputs: imageIn,
+  outputs: imageOut,
+  params: [
+    { key: 'inBlack', label: 'In Black', control: 'number', default: 0, min: 0, max: 254, step: 1 },
+    { key: 'inWhite', label: 'In White', control: 'number', default: 255, min: 1, max: 255, step: 1 },
+    { key: 'gamma', label: 'Gamma', control: 'number', default: 1, min: 0.1, max: 10, step: 0.05 },
+    { key: 'outBlack', label: 'Out Black', control: 'number', default: 0, min: 0, max: 255, step: 1 },
+    { key: 'outWhite', label: 'Out White', control: 'number', default: 255, min: 0, max: 255, step: 1 },
+  ],
+  evaluate: (p, inputs) => ({ out: applyLevels(input(inputs), p) }),
+};
+
+const curves: NodeDefinition<{ curves: Curves }> = {
+  id: 'curves',
+  title: 'Curves',
+  category: 'Color',
+  inputs: imageIn,
+  outputs: imageOut,
+  params: [
+    { key: 'curves', label: 'Curves', control: 'custom', component: 'curves', default: () => ({ rgb: linear(), r: linear(), g: linear(), b: linear() }) },
+  ],
+  evaluate: (p, inputs) => ({ out: applyCurves(input(inputs), p.curves) }),
+};
+
+const hsv: NodeDefinition<{ hue: number; saturation: number; value: number }> = {
+  id: 'hsv',
+  title: 'Hue / Saturation',
+  category: 'Color',
+  inputs: imageIn,
+  outputs: imageOut,
+  params: [
+    { key: 'hue', label: 'Hue Shift', control: 'range', default: 0, min: -180, max: 180, step: 1 },
+    { key: 'saturation', label: 'Saturation', control: 'range', default: 1, min: 0, max: 4, step: 0.05 },
+    { key: 'value', label: 'Value', control: 'range', default: 1, min: 0, max: 4, step: 0.05 },
+  ],
+  evaluate: (p, inputs) => ({ out: adjustHsv(input(inputs), p.hue, p.saturation, p.value) }),
+};
+
+const brightness: NodeDefinition<{ brightness: number; contrast: number }> = {
+  id: 'brightnessContrast',
+  title: 'Brightness / Contrast',
+  category: 'Color',
+  inputs: imageIn,
+  outputs: imageOut,
+  params: [
+    { key: 'brightness', label: 'Brightness', control: 'range', default: 0, min: -1, max: 1, step: 0.01 },
+    { key: 'contrast', label: 'Contrast', control: 'range', default: 0, min: -1, max: 0.99, step: 0.01 },
+  ],
+  evaluate: (p, inputs) => ({ out: brightnessContrast(input(inputs), p.brightness, p.contrast) }),
+};
+
+const invert: NodeDefinition = {
+  id: 'invert',
+  title: 'Invert',
+  category: 'Color',
+  inputs: imageIn,
+  outputs: imageOut,
+  params: [],
+  evaluate: (_, inputs) => ({ out: invertImage(input(inputs)) }),
+};
+
+const threshold: NodeDefinition<{ level: number }> = {
+  id: 'threshold',
+  title: 'Threshold',
+  category: 'Color',
+  // a connected level overrides the parameter
+  inputs: [...imageIn, { id: 'level', label: 'Level', type: 'scalar', optional: true }],
+  outputs: [{ id: 'out', label: 'Mask', type: 'mask' }],
+  params: [{ key: 'level', label: 'Level', control: 'range', default: 128, min: 0, max: 255, step: 1 }],
+  evaluate: (p, inputs) => ({ out: thresholdImage(input(inputs), (inputs.level as number | null) ?? p.level) }),
+};
+
+const posterize: NodeDefinition<{ levels: number }> = {
+  id: 'posterize',
+  title: 'Posterize',
+  category: 'Color',
+  inputs: imageIn,
+  outputs: imageOut,
+  params: [{ key: 'levels', label: 'Levels', control: 'number', default: 4, min: 2, max: 64, step: 1 }],
+  evaluate: (p, inputs) => ({ out: posterizeImage(input(inputs), p.levels) }),
+};
+
+const gradientMapNode: NodeDefinition<{ stops: GradientStop[] }> = {
+  id: 'gradientMap',
+  title: 'Gradient Map',
+  category: 'Color',
+  inputs: imageIn,
+  outputs: imageOut,
+  params: [
+    { key: 'stops', label: 'Ramp', control: 'custom', component: 'ramp', default: () => [{ position: 0, color: '#0b1020' }, { position: 0.5, color: '#7aa2f7' }, { position: 1, color: '#f5f3ff' }] },
+  ],
+  evaluate: (p, inputs) => ({ out: gradientMap(input(inputs), p.stops) }),
+};
+
+export const colorNodes: NodeDefinition[] = [levels, curves, hsv, brightness, invert, threshold, posterize, gradientMapNode];
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { GraphEvaluator, toEvalGraph } from '@/lib/graph';
+import { resizeImage } from '@/lib/image';
+import { EvalContext, getNodeDefinition } from '@/lib/nodes';
+
+const at = { x: 0, y: 0 };
+const context: EvalContext = { warn: () => {}, resolution: { width: 128, height: 128 }, scale: 1, decodeImage: () => Promise.reject(new Error('No images')) };
+
+// noise -> filter -> display, evaluated at a proxy scale
+async function filtered(type: string, data: Record<string, unknown>, scale: number) {
+  const nodes = [
+    { id: '1', type: 'perlin', position: at, data: { scale: 32, seed: 3 } },
+    { id: '2', type, position: at, data },
+    { id: '3', type: 'display', position: at, data: {} },
+  ];
+  const edges = [{ source: '1', target: '2', targetHandle: 'in' }, { source: '2', target: '3', targetHandle: 'in' }];
+  const result = await new GraphEvaluator().evaluate(toEvalGraph(nodes, edges, { width: 128, height: 128 }, 0, scale));
+  return { noise: result!.outputs['1']!, out: result!.outputs['2']! };
+}
+
+function meanDifference(a: ImageData, b: ImageData): number {
+  let sum = 0;
+  for (let i = 0; i < a.data.length; i++) if (i % 4 !== 3) sum += Math.abs(a.data[i] - b.data[i]);
+  return sum / (a.width * a.height * 3);
+}
+
+describe('filters at proxy scale', () => {
+  // 3×3 kernels scale their response rather than their footprint, so the
+  // proxy tracks the full result better than filtering its pixels unchanged
+  it('look like a smaller copy of the full-resolution result', async () => {
+    for (const [type, data] of [
+      ['edgeDetect', { operator: 'sobel', strength: 4, edge: 'clamp' }],
+      ['edgeDetect', { operator: 'laplacian', strength: 4, edge: 'clamp' }],
+      ['emboss', { angle: 135, strength: 4, edge: 'clamp' }],
+      ['customKernel', { kernel: { size: 3, values: [-1, 0, 1, -2, 1, 2, -1, 0, 1] }, normalize: false, bias: 0, edge: 'clamp' }],
+      ['customKernel', { kernel: { size: 3, values: [0, -1, 0, -1, 5, -1, 0, -1, 0] }, normalize: true, bias: 0, edge: 'clamp' }],
+    ] as const) {
+      const full = await filtered(type, data, 1);
+      const proxy = await filtered(type, data, 0.25);
+      const naive = await getNodeDefinition(type)!.evaluate(data, { in: proxy.noise }, context);
+      const expected = resizeImage(full.out, 32, 32);
+      expect(proxy.out.width).toBe(32);
+      expect(meanDifference(proxy.out, expected), type).toBeLessThan(8);
+      expect(meanDifference(naive.out as ImageData, expected), type).toBeGreaterThan(1.5 * meanDifference(proxy.out, expected));
+    }
+  });
+
+  it('keep a small box blur visible', async () => {
+    const { noise, out } = await filtered('boxBlur', { radius: 2, edge: 'clamp' }, 0.125);
+    expect(out.data).not.toEqual(noise.data);
+  });
+});
@@ -0,0 +1,116 @@
+import { EdgeMode, EdgeOperator, boxBlur, convolve, detectEdges, emboss, gaussianBlur, normalizeKernel, unsharpMask } from '@/lib/image';
+import { edgeParam } from '@/lib/nodes/transform';
+import type { NodeDefinition, PortSpec } from '@/lib/nodes/types';
+
+export type KernelValue = { size: number; values: number[] };
+
+const imageIn: PortSpec[] = [{ id: 'in', label: 'Image', type: 'image' }];
+const imageOut: PortSpec[] = [{ id: 'out', label: 'Image', type: 'image' }];
+
+const input = (inputs: Record<string, unknown>) => inputs.in as ImageData;
+
+// Fixed 3×3 kernels can't shrink below a pixel, so at a proxy their response
+// is scaled instead: a smooth ramp changes 1/scale times as much per proxy
+// pixel, so a first derivative is multiplied by the scale and a second
+// derivative by its square
+function scaledKernel(kernel: number[], size: number, scale: number): number[] {
+  if (scale === 1) return kernel;
+  // keeps the kernel's flat response (its sum) and scales the rest, so a
+  // sharpen or blur weakens towards identity
+  const sum = kernel.reduce((s, v) => s + v, 0);
+  const center = (size * size - 1) / 2;
+  return kernel.map((v, i) => v * scale + (i === center ? sum * (1 - scale) : 0));
+}
+
+const gaussian: NodeDefinition<{ radius: number; edge: EdgeMode }> = {
+  id: 'gaussianBlur',
+  title: 'Gaussian Blur',
+  category: 'Filters',
+  inputs: imageIn,
+  outputs: imageOut,
+  params: [
+    { key: 'radius', label: 'Radius', control: 'number', default: 4, min: 0, max: 64, step: 0.5 },
+    edgeParam,
+  ],
+  evaluate: (p, inputs, ctx) => ({ out: gaussianBlur(input(inputs), p.radius * ctx.scale, p.edge) }),
+};
+
+const box: NodeDefinition<{ radius: number; edge: EdgeMode }> = {
+  id: 'boxBlur',
+  title: 'Box Blur',
+  category: 'Filters',
+  inputs: imageIn,
+  outputs: imageOut,
+  params: [
+    { key: 'radius', label: 'Radius', control: 'number', default: 4, min: 0, max: 64, step: 1 },
+    edgeParam,
+  ],
+  // at least one pixel, so a small blur doesn't vanish from the proxy
+  evaluate: (p, inputs, ctx) => ({ out: boxBlur(input(inputs), p.radius > 0 ? Math.max(1, p.radius * ctx.scale) : 0, p.edge) }),
+};
+
+const sharpen: NodeDefinition<{ radius: number; amount: number; threshold: number; edge: EdgeMode }> = {
+  id: 'unsharpMask',
+  title: 'Unsharp Mask',
+  category: 'Filters',
+  inputs: imageIn,
+  outputs: imageOut,
+  params: [
+    { key: 'radius', label: 'Radius', control: 'number', default: 2, min: 0.5, max: 32, step: 0.5 },
+    { key: 'amount', label: 'Amount', control: 'range', default: 1, min: 0, max: 5, step: 0.05 },
+    { key: 'threshold', label: 'Threshold', control: 'number', default: 0, min: 0, max: 255, step: 1 },
+    edgeParam,
+  ],
+  evaluate: (p, inputs, ctx) => ({ out: unsharpMask(input(inputs), p.radius * ctx.scale, p.amount, p.threshold, p.edge) }),
+};
+
+const edges: NodeDefinition<{ operator: EdgeOperator; strength: number; edge: EdgeMode }> = {
+  id: 'edgeDetect',
+  title: 'Edge Detect',
+  category: 'Filters',
+  inputs: imageIn,
+  outputs: [{ id: 'out', label: 'Edges', type: 'mask' }],
+  params: [
+    { key: 'operator', label: 'Operator', control: 'select', default: 'sobel', options: [{ value: 'sobel', label: 'Sobel' }, { value: 'laplacian', label: 'Laplacian' }] },
+    { key: 'strength', label: 'Strength', control: 'number', default: 1, min: 0, max: 16, step: 0.1 },
+    edgeParam,
+  ],
+  evaluate: (p, inputs, ctx) => ({ out: detectEdges(input(inputs), p.operator, p.strength * ctx.scale ** (p.operator === 'laplacian' ? 2 : 1), p.edge) }),
+};
+
+const embossNode: NodeDefinition<{ angle: number; strength: number; edge: EdgeMode }> = {
+  id: 'emboss',
+  title: 'Emboss',
+  category: 'Filters',
+  inputs: imageIn,
+  outputs: imageOut,
+  params: [
+    { key: 'angle', label: 'Angle', control: 'range', default: 135, min: 0, max: 360, step: 1 },
+    { key: 'strength', label: 'Strength', control: 'number', default: 1, min: 0, max: 8, step: 0.1 },
+    edgeParam,
+  ],
+  evaluate: (p, inputs, ctx) => ({ out: emboss(input(inputs), p.angle, p.strength * ctx.scale, p.edge) }),
+};
+
+const customKernel: NodeDefinition<{ kernel: KernelValue; normalize: boolean; bias: number; edge: EdgeMode }> = {
+  id: 'customKernel',
+  title: 'Custom Kernel',
+  category: 'Filters',
+  inputs: imageIn,
+  outputs: imageOut,
+  params: [
+    { key: 'kernel', label: 'Kernel', control: 'custom', component: 'kernel', default: () => ({ size: 3, values: [0, -1, 0, -1, 5, -1, 0, -1, 0] }) },
+    { key: 'normalize', label: 'Normalize', control: 'toggle', default: true },
+    { key: 'bias', label: 'Bias', control: 'number', default: 0, min: -255, max: 255, step: 1 },
+    edgeParam,
+  ],
+  evaluate: (p, inputs, ctx) => {
+    const { size, values } = p.kernel;
+    const sum = values.reduce((s, v) => s + v, 0);
+    if (p.normalize && sum === 0) ctx.warn('Kernel sums to zero and was not normalized');
+    const kernel = p.normalize ? normalizeKernel(values) : values;
+    return { out: convolve(input(inputs), scaledKernel(kernel, size, ctx.scale), size, { edge: p.edge, bias: p.bias }) };
+  },
+};
+
+export const filterNodes: NodeDefinition[] = [gaussian, box, sharpen, edges, embossNode, customKernel];
@@ -0,0 +1,67 @@
+import type { DocumentEdge, DocumentNode } from '@/lib/document';
+import type { NodeDefinition, PortSpec } from '@/lib/nodes/types';
+
+// A group node holds a subgraph. Inside it, a Group Input node provides the
+// group's inputs and a Group Output node collects its outputs; chosen inner
+// parameters are promoted to the group's own controls. Groups are expanded
+// into their inner nodes before evaluation (see lib/groups.ts).
+
+export type GroupGraph = { nodes: DocumentNode[]; edges: DocumentEdge[] };
+
+// An inner node parameter shown on the group
+export type PromotedParam = { node: string; key: string };
+
+export type GroupParams = {
+  title: string;
+  graph: GroupGraph;
+  params: PromotedParam[];
+};
+
+type BoundaryParams = { ports: PortSpec[] };
+
+function boundaryPorts(graph: GroupGraph | undefined, type: string): PortSpec[] {
+  const node = graph?.nodes.find(n => n.type === type);
+  return (node?.data.ports as PortSpec[] | undefined) ?? [];
+}
+
+const group: NodeDefinition<GroupParams> = {
+  id: 'group',
+  title: 'Group',
+  category: 'Groups',
+  inputs: [],
+  outputs: [],
+  params: [],
+  ports: p => ({ inputs: boundaryPorts(p.graph, 'groupInput'), outputs: boundaryPorts(p.graph, 'groupOutput') }),
+  hidden: true,
+  evaluate: () => { throw new Error('Groups are expanded before evaluation'); },
+};
+
+const groupInput: NodeDefinition<BoundaryParams> = {
+  id: 'groupInput',
+  title: 'Group Input',
+  category: 'Groups',
+  inputs: [],
+  outputs: [],
+  params: [],
+  ports: p => ({ inputs: [], outputs: p.ports ?? [] }),
+  hidden: true,
+  // edges from here are rewired to the group's own inputs when expanding
+  evaluate: () => { throw new Error('Group Input is only valid inside a group'); },
+};
+
+// Stands in for the group once it's expanded, passing the inner results on
+// under the group's id
+const groupOutput: NodeDefinition<BoundaryParams> = {
+  id: 'groupOutput',
+  title: 'Group Output',
+  category: 'Groups',
+  inputs: [],
+  outputs: [],
+  params: [],
+  ports: p => ({ inputs: p.ports ?? [], outputs: [] }),
+  previewPort: p => p.ports?.[0]?.id ?? 'out',
+  hidden: true,
+  evaluate: (_, inputs) => ({ ...inputs }),
+};
+
+export const groupNodes: NodeDefinition[] = [group, groupInput, groupOutput];
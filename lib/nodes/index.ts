@@ -0,0 +1,26 @@
+import { registerNodePack } from '@/lib/nodes/registry';
+import { builtinNodes } from '@/lib/nodes/builtin';
+import { transformNodes } from '@/lib/nodes/transform';
+import { filterNodes } from '@/lib/nodes/filters';
+import { colorNodes } from '@/lib/nodes/color';
+import { channelNodes } from '@/lib/nodes/channels';
+import { groupNodes } from '@/lib/nodes/groups';
+import { noiseNodes } from '@/lib/nodes/noise';
+import { sourceNodes } from '@/lib/nodes/sources';
+import { valueNodes } from '@/lib/nodes/values';
+
+export * from '@/lib/nodes/registry';
+export type * from '@/lib/nodes/types';
+
+// Node packs are registered here, at import time, so the editor and the
+// evaluation worker always see the same set of node types. To ship a pack,
+// export its definitions as an array and add a `registerNodePack` call below.
+registerNodePack(builtinNodes);
+registerNodePack(noiseNodes);
+registerNodePack(sourceNodes);
+registerNodePack(valueNodes);
+registerNodePack(transformNodes);
+registerNodePack(filterNodes);
+registerNodePack(colorNodes);
+registerNodePack(channelNodes);
+registerNodePack(groupNodes);
@@ -0,0 +1,90 @@
+import { CellularFeature, DistanceMetric, FractalMode, NoiseBasis, generateCellularNoise, generateFractalNoise } from '@/lib/image';
+import { SizeParams, outputSize, sizeParams } from '@/lib/nodes/builtin';
+import type { NodeDefinition, ParamSpec } from '@/lib/nodes/types';
+
+type FractalParams = SizeParams & {
+  scale: number;
+  seed: number;
+  octaves: number;
+  lacunarity: number;
+  gain: number;
+  mode: FractalMode;
+  tile: boolean;
+};
+
+const seedParam: ParamSpec = { key: 'seed', label: 'Seed', control: 'number', default: () => Math.floor(Math.random() * 9999), min: 0, max: 9999, step: 1 };
+
+// Octave controls; lacunarity, gain and mode only matter past the first octave
+const fractalParams = (octaves: number): ParamSpec[] => [
+  { key: 'octaves', label: 'Octaves', control: 'number', default: octaves, min: 1, max: 12, step: 1 },
+  { key: 'lacunarity', label: 'Lacunarity', control: 'number', default: 2, min: 1, max: 4, step: 0.1, visible: p => p.octaves > 1 },
+  { key: 'gain', label: 'Gain', control: 'range', default: 0.5, min: 0, max: 1, step: 0.05, visible: p => p.octaves > 1 },
+  {
+    key: 'mode', label: 'Fractal', control: 'select', default: 'fbm', visible: p => p.octaves > 1, options: [
+      { value: 'fbm', label: 'fBm' },
+      { value: 'turbulence', label: 'Turbulence' },
+      { value: 'ridged', label: 'Ridged' },
+    ],
+  },
+  { key: 'tile', label: 'Seamless', control: 'toggle', default: false },
+];
+
+const fractalNoise: NodeDefinition<FractalParams & { basis: NoiseBasis }> = {
+  id: 'fractalNoise',
+  title: 'Fractal Noise',
+  category: 'Generators',
+  inputs: [],
+  outputs: [{ id: 'out', label: 'Image', type: 'image' }],
+  params: [
+    {
+      key: 'basis', label: 'Basis', control: 'select', default: 'perlin', options: [
+        { value: 'perlin', label: 'Perlin' },
+        { value: 'value', label: 'Value' },
+        { value: 'simplex', label: 'Simplex' },
+      ],
+    },
+    { key: 'scale', label: 'Scale', control: 'number', default: 64, min: 2, max: 512, step: 1 },
+    seedParam,
+    ...fractalParams(5),
+    ...sizeParams,
+  ],
+  evaluate: (p, _, ctx) => {
+    const { width, height } = outputSize(p, ctx);
+    return { out: generateFractalNoise(width, height, p.basis, { ...p, scale: p.scale * ctx.scale }) };
+  },
+};
+
+const cellularNoise: NodeDefinition<FractalParams & { feature: CellularFeature; metric: DistanceMetric; jitter: number }> = {
+  id: 'cellularNoise',
+  title: 'Cellular Noise',
+  category: 'Generators',
+  inputs: [],
+  outputs: [{ id: 'out', label: 'Image', type: 'image' }],
+  params: [
+    {
+      key: 'feature', label: 'Feature', control: 'select', default: 'f1', options: [
+        { value: 'f1', label: 'F1' },
+        { value: 'f2', label: 'F2' },
+        { value: 'f2-f1', label: 'F2 − F1' },
+      ],
+    },
+    {
+      key: 'metric', label: 'Distance', control: 'select', default: 'euclidean', options: [
+        { value: 'euclidean', label: 'Euclidean' },
+        { value: 'manhattan', label: 'Manhattan' },
+        { value: 'chebyshev', label: 'Chebyshev' },
+      ],
+    },
+    { key: 'jitter', label: 'Jitter', control: 'range', default: 1, min: 0, max: 1, step: 0.05 },
+    { key: 'scale', label: 'Scale', control: 'number', default: 32, min: 2, max: 512, step: 1 },
+    seedParam,
+    ...fractalParams(1),
+    ...sizeParams,
+  ],
+  evaluate: (p, _, ctx) => {
+    const { width, height } = outputSize(p, ctx);
+    return { out: generateCellularNoise(width, height, p.feature, p.metric, p.jitter, { ...p, scale: p.scale * ctx.scale }) };
+  },
+};
+
+export const noiseNodes: NodeDefinition[] = [fractalNoise, cellularNoise];
@@ -0,0 +1,63 @@
+import type { NodeDefinition, NodePorts, PortType } from '@/lib/nodes/types';
+
+const definitions = new Map<string, NodeDefinition>();
+
+export function registerNode(def: NodeDefinition) {
+  if (definitions.has(def.id)) throw new Error(`Node type "${def.id}" is already registered`);
+  definitions.set(def.id, def);
+}
+
+export function registerNodePack(defs: NodeDefinition[]) {
+  defs.forEach(registerNode);
+}
+
+export function getNodeDefinition(id: string | undefined): NodeDefinition | undefined {
+  return id ? definitions.get(id) : undefined;
+}
+
+export function listNodeDefinitions(): NodeDefinition[] {
+  return Array.from(definitions.values());
+}
+
+// Definitions offered in the add-node menus, grouped by category in
+// registration order
+export function nodeCategories(): { category: string; definitions: NodeDefinition[] }[] {
+  const groups = new Map<string, NodeDefinition[]>();
+  definitions.forEach(def => {
+    if (def.hidden) return;
+    if (!groups.has(def.category)) groups.set(def.category, []);
+    groups.get(def.category)!.push(def);
+  });
+  return Array.from(groups, ([category, defs]) => ({ category, definitions: defs }));
+}
+
+export function defaultParams(def: NodeDefinition): Record<string, unknown> {
+  const params: Record<string, unknown> = {};
+  for (const p of def.params) {
+    params[p.key] = typeof p.default === 'function' ? (p.default as () => unknown)() : p.default;
+  }
+  return params;
+}
+
+// Ports of one node; `params` is the node's data
+export function nodePorts(def: NodeDefinition, params: Record<string, unknown> = {}): NodePorts {
+  return def.ports ? def.ports(params) : { inputs: def.inputs, outputs: def.outputs };
+}
+
+export function previewPort(def: NodeDefinition, params: Record<string, unknown> = {}): string {
+  if (typeof def.previewPort === 'function') return def.previewPort(params);
+  return def.previewPort ?? nodePorts(def, params).outputs[0]?.id ?? 'out';
+}
+
+// Which output port types may feed which input port types. Images and masks
+// convert implicitly (a mask is a grayscale image); scalars and colors don't.
+const compatibility: Record<PortType, PortType[]> = {
+  image: ['image', 'mask'],
+  mask: ['mask', 'image'],
+  scalar: ['scalar'],
+  color: ['color'],
+};
+
+export function canConnectPorts(from: PortType, to: PortType): boolean {
+  return compatibility[to].includes(from);
+}
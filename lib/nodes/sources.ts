@@ -0,0 +1,50 @@
+import { FitMode, createSolidImage, fitImage, resizeImage } from '@/lib/image';
+import { SizeParams, outputSize, scaledSize, sizeParams } from '@/lib/nodes/builtin';
+import type { NodeDefinition } from '@/lib/nodes/types';
+
+// An image file embedded in the document as a data URL, so saved graphs stay
+// self-contained
+export type EmbeddedImage = { name: string; src: string };
+
+type ImageImportParams = SizeParams & {
+  image: EmbeddedImage | null;
+  fit: FitMode | 'original';
+};
+
+const imageImport: NodeDefinition<ImageImportParams> = {
+  id: 'imageImport',
+  title: 'Image',
+  category: 'Input',
+  inputs: [],
+  outputs: [{ id: 'out', label: 'Image', type: 'image' }],
+  params: [
+    { key: 'image', label: 'File', control: 'custom', component: 'imageFile', default: null },
+    {
+      key: 'fit', label: 'Fit', control: 'select', default: 'original', options: [
+        { value: 'original', label: 'Original Size' },
+        { value: 'fit', label: 'Fit' },
+        { value: 'fill', label: 'Fill' },
+        { value: 'stretch', label: 'Stretch' },
+      ],
+    },
+    // the target size only applies when scaling
+    ...sizeParams.map(spec => ({ ...spec, visible: (p: Record<string, any>) => p.fit !== 'original' && (spec.visible?.(p) ?? true) })),
+  ],
+  evaluate: async (p, _, ctx) => {
+    if (!p.image) {
+      ctx.warn('No image loaded');
+      const { width, height } = outputSize(p, ctx);
+      return { out: createSolidImage(width, height, 0, 0, 0, 0) };
+    }
+    const img = await ctx.decodeImage(p.image.src);
+    if (p.fit === 'original') {
+      if (ctx.scale === 1) return { out: img };
+      const { width, height } = scaledSize(img, ctx);
+      return { out: resizeImage(img, width, height) };
+    }
+    const { width, height } = outputSize(p, ctx);
+    return { out: fitImage(img, width, height, p.fit) };
+  },
+};
+
+export const sourceNodes: NodeDefinition[] = [imageImport];
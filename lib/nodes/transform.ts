@@ -0,0 +1,43 @@
+import { EdgeMode, Interpolation, TransformOptions, transformImage } from '@/lib/image';
+import type { NodeDefinition, ParamSpec } from '@/lib/nodes/types';
+
+export const interpolationParam: ParamSpec = {
+  key: 'interpolation', label: 'Interpolation', control: 'select', default: 'bilinear', options: [
+    { value: 'nearest', label: 'Nearest' },
+    { value: 'bilinear', label: 'Bilinear' },
+    { value: 'bicubic', label: 'Bicubic' },
+  ] satisfies { value: Interpolation; label: string }[],
+};
+
+export const edgeParam: ParamSpec = {
+  key: 'edge', label: 'Edges', control: 'select', default: 'clamp', options: [
+    { value: 'clamp', label: 'Clamp' },
+    { value: 'wrap', label: 'Wrap' },
+    { value: 'mirror', label: 'Mirror' },
+    { value: 'transparent', label: 'Transparent' },
+  ] satisfies { value: EdgeMode; label: string }[],
+};
+
+const transform: NodeDefinition<TransformOptions> = {
+  id: 'transform',
+  title: 'Transform',
+  category: 'Transform',
+  inputs: [{ id: 'in', label: 'Image', type: 'image' }],
+  outputs: [{ id: 'out', label: 'Image', type: 'image' }],
+  params: [
+    { key: 'translateX', label: 'Offset X', control: 'number', default: 0, min: -1, max: 1, step: 0.01 },
+    { key: 'translateY', label: 'Offset Y', control: 'number', default: 0, min: -1, max: 1, step: 0.01 },
+    { key: 'rotate', label: 'Rotate', control: 'range', default: 0, min: -180, max: 180, step: 1 },
+    { key: 'scaleX', label: 'Scale X', control: 'number', default: 1, min: 0.05, max: 16, step: 0.05 },
+    { key: 'scaleY', label: 'Scale Y', control: 'number', default: 1, min: 0.05, max: 16, step: 0.05 },
+    { key: 'flipX', label: 'Mirror X', control: 'toggle', default: false },
+    { key: 'flipY', label: 'Mirror Y', control: 'toggle', default: false },
+    { key: 'tilesX', label: 'Tiles X', control: 'number', default: 1, min: 1, max: 32, step: 1 },
+    { key: 'tilesY', label: 'Tiles Y', control: 'number', default: 1, min: 1, max: 32, step: 1 },
+    interpolationParam,
+    edgeParam,
+  ],
+  evaluate: (p, inputs) => ({ out: transformImage(inputs.in as ImageData, p) }),
+};
+
+export const transformNodes: NodeDefinition[] = [transform];
@@ -0,0 +1,77 @@
+// Node definition API. Definitions are plain data plus a pure `evaluate`
+// function, so the same registry runs in the editor and in the evaluation
+// worker; nothing here may import React or touch the DOM.
+
+// `mask` ports carry single-channel images (read from the red channel),
+// `scalar` ports carry numbers and `color` ports carry hex colors
+export type PortType = 'image' | 'mask' | 'scalar' | 'color';
+
+export type PortValue = ImageData | number | string | null;
+
+export type PortSpec = {
+  id: string;
+  label: string;
+  type: PortType;
+  // inputs are required unless marked optional; a node with an unconnected
+  // required input is reported and not evaluated
+  optional?: boolean;
+};
+
+type ParamBase<C extends string, V> = {
+  key: string;
+  label: string;
+  control: C;
+  // a function is called for every new node, e.g. for random seeds
+  default: V | (() => V);
+  // hides the control while it doesn't apply, e.g. width under "inherit size"
+  visible?: (params: Record<string, any>) => boolean;
+};
+
+export type NumberParam = ParamBase<'number' | 'range', number> & { min?: number; max?: number; step?: number };
+export type ColorParam = ParamBase<'color', string>;
+export type SelectParam = ParamBase<'select', string> & { options: { value: string; label: string }[] };
+export type ToggleParam = ParamBase<'toggle', boolean>;
+export type TextParam = ParamBase<'text', string>;
+// Rendered by a control registered in the editor under `component`
+export type CustomParam = ParamBase<'custom', unknown> & { component: string; options?: Record<string, unknown> };
+
+export type ParamSpec = NumberParam | ColorParam | SelectParam | ToggleParam | TextParam | CustomParam;
+
+export type NodePorts = { inputs: PortSpec[]; outputs: PortSpec[] };
+
+export type NodeInputs = Record<string, PortValue>;
+export type NodeOutputs = Record<string, PortValue>;
+
+// Passed to `evaluate`; anything that should fail outright is thrown instead
+export type EvalContext = {
+  warn: (message: string) => void;
+  // document default resolution, used by generators that inherit their size
+  resolution: Resolution;
+  // proxy factor while editing, 1 for full resolution. Generators render at
+  // `scaledSize` and multiply pixel-unit parameters (noise scale, blur
+  // radius) by it, so a proxy looks like a smaller copy of the full image.
+  scale: number;
+  // decodes an encoded image (data URL); supplied by the host environment
+  decodeImage: (src: string) => Promise<ImageData>;
+};
+
+export type Resolution = { width: number; height: number };
+
+export type NodeDefinition<P = any> = {
+  id: string;
+  title: string;
+  category: string;
+  inputs: PortSpec[];
+  outputs: PortSpec[];
+  params: ParamSpec[];
+  // per-node ports for nodes whose ports depend on their parameters, like
+  // groups; `inputs` and `outputs` are used otherwise
+  ports?: (params: P) => NodePorts;
+  // key of the evaluate result shown in the node's preview; defaults to the
+  // first output port (sinks like Display expose a result without a port)
+  previewPort?: string | ((params: P) => string);
+  // left out of the add-node menus; the editor creates these itself
+  hidden?: boolean;
+  // may be async, e.g. to decode an embedded image
+  evaluate: (params: P, inputs: NodeInputs, ctx: EvalContext) => NodeOutputs | Promise<NodeOutputs>;
+};
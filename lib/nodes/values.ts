@@ -0,0 +1,53 @@
+import { averageColor, colorHexToRgb, createSolidImage, luminance, rgbToHex } from '@/lib/image';
+import type { NodeDefinition } from '@/lib/nodes/types';
+
+// Value nodes feed `scalar` and `color` inputs. Colors preview as a swatch.
+const swatch = (color: string) => {
+  const { r, g, b } = colorHexToRgb(color);
+  return createSolidImage(16, 16, r, g, b);
+};
+
+const number: NodeDefinition<{ value: number }> = {
+  id: 'numberValue',
+  title: 'Number',
+  category: 'Values',
+  inputs: [],
+  outputs: [{ id: 'out', label: 'Value', type: 'scalar' }],
+  params: [{ key: 'value', label: 'Value', control: 'number', default: 128, step: 1 }],
+  evaluate: p => {
+    if (!Number.isFinite(p.value)) throw new RangeError(`Invalid number ${p.value}`);
+    return { out: p.value };
+  },
+};
+
+const color: NodeDefinition<{ color: string }> = {
+  id: 'colorValue',
+  title: 'Color',
+  category: 'Values',
+  inputs: [],
+  outputs: [{ id: 'out', label: 'Color', type: 'color' }],
+  params: [{ key: 'color', label: 'Color', control: 'color', default: '#4f46e5' }],
+  previewPort: 'preview',
+  evaluate: p => ({ out: p.color, preview: swatch(p.color) }),
+};
+
+// Luminance is 0..255, the range of the Threshold level
+const averageColorNode: NodeDefinition = {
+  id: 'averageColor',
+  title: 'Average Color',
+  category: 'Values',
+  inputs: [{ id: 'in', label: 'Image', type: 'image' }],
+  outputs: [
+    { id: 'color', label: 'Color', type: 'color' },
+    { id: 'luminance', label: 'Luminance', type: 'scalar' },
+  ],
+  params: [],
+  previewPort: 'preview',
+  evaluate: (_, inputs) => {
+    const rgb = averageColor(inputs.in as ImageData);
+    const hex = rgbToHex(rgb);
+    return { color: hex, luminance: luminance(rgb.r, rgb.g, rgb.b), preview: swatch(hex) };
+  },
+};
+
+export const valueNodes: NodeDefinition[] = [number, color, averageColorNode];
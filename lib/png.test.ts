@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, deflate, inflate } from '@/lib/deflate';
+import { decodePng, encodeApng, encodePng } from '@/lib/png';
+
+function gradient(width: number, height: number): ImageData {
+  const img = new ImageData(width, height);
+  for (let i = 0; i < width * height; i++) img.data.set([i % 256, (i * 3) % 256, 255 - (i % 256), (i * 5) % 256], i * 4);
+  return img;
+}
+
+// chunk types in file order, after the signature
+function chunks(png: Uint8Array): { type: string; data: Uint8Array }[] {
+  const view = new DataView(png.buffer, png.byteOffset);
+  const out = [];
+  for (let pos = 8; pos < png.length; ) {
+    const length = view.getUint32(pos);
+    const data = png.subarray(pos + 8, pos + 8 + length);
+    expect(view.getUint32(pos + 8 + length)).toBe(crc32(png.subarray(pos + 4, pos + 8 + length)));
+    out.push({ type: String.fromCharCode(...png.subarray(pos + 4, pos + 8)), data });
+    pos += length + 12;
+  }
+  return out;
+}
+
+// A PNG built by hand, for color types the encoder never writes
+function png(width: number, height: number, depth: number, colorType: number, rows: number[][], extra: [string, number[]][] = []): Uint8Array {
+  const chunk = (type: string, data: Uint8Array) => {
+    const out = new Uint8Array(data.length + 12);
+    const view = new DataView(out.buffer);
+    view.setUint32(0, data.length);
+    out.set(Array.from(type, c => c.charCodeAt(0)), 4);
+    out.set(data, 8);
+    view.setUint32(data.length + 8, crc32(out.subarray(4, data.length + 8)));
+    return Array.from(out);
+  };
+  const header = new Uint8Array(13);
+  new DataView(header.buffer).setUint32(0, width);
+  new DataView(header.buffer).setUint32(4, height);
+  header[8] = depth; header[9] = colorType;
+  return Uint8Array.from([
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    ...chunk('IHDR', header),
+    ...extra.flatMap(([type, data]) => chunk(type, Uint8Array.from(data))),
+    ...chunk('IDAT', deflate(Uint8Array.from(rows.flatMap(row => [0, ...row])))),
+    ...chunk('IEND', new Uint8Array(0)),
+  ]);
+}
+
+describe('encodePng', () => {
+  it('writes a valid RGBA PNG that decodes to the same pixels', () => {
+    const img = gradient(37, 11);
+    const bytes = encodePng(img);
+    expect(chunks(bytes).map(c => c.type)).toEqual(['IHDR', 'IDAT', 'IEND']);
+    expect(inflate(chunks(bytes)[1].data).length).toBe((37 * 4 + 1) * 11);
+    const decoded = decodePng(bytes);
+    expect([decoded.width, decoded.height]).toEqual([37, 11]);
+    expect(decoded.data).toEqual(img.data);
+  });
+});
+
+describe('encodeApng', () => {
+  it('writes one fcTL per frame with increasing sequence numbers', () => {
+    const frames = [gradient(4, 4), gradient(4, 4), gradient(4, 4)];
+    const parsed = chunks(encodeApng(frames, 12));
+    expect(parsed.map(c => c.type)).toEqual(['IHDR', 'acTL', 'fcTL', 'IDAT', 'fcTL', 'fdAT', 'fcTL', 'fdAT', 'IEND']);
+    expect(new DataView(parsed[1].data.buffer, parsed[1].data.byteOffset).getUint32(0)).toBe(3);
+    const sequence = parsed.filter(c => c.type === 'fcTL' || c.type === 'fdAT').map(c => new DataView(c.data.buffer, c.data.byteOffset).getUint32(0));
+    expect(sequence).toEqual([0, 1, 2, 3, 4]);
+    const delay = new DataView(parsed[2].data.buffer, parsed[2].data.byteOffset);
+    expect([delay.getUint16(20), delay.getUint16(22)]).toEqual([1, 12]);
+  });
+
+  it('rejects frames of different sizes', () => {
+    expect(() => encodeApng([gradient(4, 4), gradient(2, 2)], 12)).toThrow('same size');
+  });
+});
+
+describe('decodePng', () => {
+  it('decodes palettes with transparency', () => {
+    const img = decodePng(png(2, 1, 8, 3, [[1, 0]], [['PLTE', [10, 20, 30, 40, 50, 60]], ['tRNS', [128]]]));
+    expect(Array.from(img.data)).toEqual([40, 50, 60, 255, 10, 20, 30, 128]);
+  });
+
+  it('expands low bit depth grayscale and 16-bit color', () => {
+    expect(Array.from(decodePng(png(3, 1, 2, 0, [[0b00011011]])).data)).toEqual([0, 0, 0, 255, 85, 85, 85, 255, 170, 170, 170, 255]);
+    expect(Array.from(decodePng(png(1, 1, 16, 2, [[1, 2, 3, 4, 5, 6]], [['tRNS', [1, 2, 3, 4, 5, 6]]])).data)).toEqual([1, 3, 5, 0]);
+  });
+
+  it('rejects other files', () => {
+    expect(() => decodePng(new TextEncoder().encode('GIF89a'))).toThrow('Not a PNG file');
+    expect(() => decodePng(encodePng(gradient(4, 4)).subarray(0, 40))).toThrow();
+  });
+});
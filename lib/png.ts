@@ -0,0 +1,226 @@
+import { crc32, deflate, inflate } from '@/lib/deflate';
+
+// PNG encoding and decoding without a canvas, for the render API route and
+// anywhere else there is no DOM
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(data.length + 12);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(data.length + 8, crc32(out.subarray(4, data.length + 8)));
+  return out;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a); const pb = Math.abs(p - b); const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+// Filter every scanline with whichever of the five PNG filters gives the
+// smallest sum of absolute differences, the usual heuristic
+function filterScanlines(img: ImageData): Uint8Array {
+  const stride = img.width * 4;
+  const src = img.data;
+  const out = new Uint8Array((stride + 1) * img.height);
+  const candidate = new Uint8Array(stride);
+  for (let y = 0; y < img.height; y++) {
+    const row = y * stride;
+    let best = Infinity;
+    for (let type = 0; type < 5; type++) {
+      let sum = 0;
+      for (let x = 0; x < stride; x++) {
+        const cur = src[row + x];
+        const a = x >= 4 ? src[row + x - 4] : 0;
+        const b = y > 0 ? src[row - stride + x] : 0;
+        const c = x >= 4 && y > 0 ? src[row - stride + x - 4] : 0;
+        let predictor: number;
+        switch (type) {
+          case 0: predictor = 0; break;
+          case 1: predictor = a; break;
+          case 2: predictor = b; break;
+          case 3: predictor = (a + b) >> 1; break;
+          default: predictor = paeth(a, b, c);
+        }
+        const v = (cur - predictor) & 0xff;
+        candidate[x] = v;
+        sum += v < 128 ? v : 256 - v;
+      }
+      if (sum < best) {
+        best = sum;
+        out[y * (stride + 1)] = type;
+        out.set(candidate, y * (stride + 1) + 1);
+      }
+    }
+  }
+  return out;
+}
+
+function imageHeader(width: number, height: number): Uint8Array {
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 8; // bit depth
+  header[9] = 6; // RGBA
+  return chunk('IHDR', header);
+}
+
+// 8-bit RGBA PNG
+export function encodePng(img: ImageData): Uint8Array {
+  return concat([
+    new Uint8Array(SIGNATURE),
+    imageHeader(img.width, img.height),
+    chunk('IDAT', deflate(filterScanlines(img))),
+    chunk('IEND', new Uint8Array(0)),
+  ]);
+}
+
+// Animated PNG that loops forever. Every frame covers the whole canvas, so
+// all frames must have the first frame's size.
+export function encodeApng(frames: ImageData[], fps: number): Uint8Array {
+  const { width, height } = frames[0];
+  if (frames.some(f => f.width !== width || f.height !== height)) throw new Error('All frames of an animation need the same size');
+  const control = new Uint8Array(8);
+  new DataView(control.buffer).setUint32(0, frames.length);
+  const parts = [new Uint8Array(SIGNATURE), imageHeader(width, height), chunk('acTL', control)];
+  let sequence = 0;
+  frames.forEach((frame, i) => {
+    const fctl = new Uint8Array(26);
+    const view = new DataView(fctl.buffer);
+    view.setUint32(0, sequence++);
+    view.setUint32(4, width);
+    view.setUint32(8, height);
+    // offsets stay 0; each frame shows for 1/fps seconds, replacing the last
+    view.setUint16(20, 1);
+    view.setUint16(22, Math.round(fps));
+    parts.push(chunk('fcTL', fctl));
+    const data = deflate(filterScanlines(frame));
+    if (i === 0) {
+      parts.push(chunk('IDAT', data));
+      return;
+    }
+    const fdat = new Uint8Array(data.length + 4);
+    new DataView(fdat.buffer).setUint32(0, sequence++);
+    fdat.set(data, 4);
+    parts.push(chunk('fdAT', fdat));
+  });
+  parts.push(chunk('IEND', new Uint8Array(0)));
+  return concat(parts);
+}
+
+// Decoding
+
+// Samples per pixel for each PNG color type
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+function unfilterScanlines(data: Uint8Array, height: number, stride: number, bpp: number): Uint8Array {
+  if (data.length < (stride + 1) * height) throw new Error('PNG image data is truncated');
+  const out = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const type = data[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const row = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const a = x >= bpp ? out[row + x - bpp] : 0;
+      const b = y > 0 ? out[row - stride + x] : 0;
+      const c = x >= bpp && y > 0 ? out[row - stride + x - bpp] : 0;
+      let predictor: number;
+      switch (type) {
+        case 0: predictor = 0; break;
+        case 1: predictor = a; break;
+        case 2: predictor = b; break;
+        case 3: predictor = (a + b) >> 1; break;
+        case 4: predictor = paeth(a, b, c); break;
+        default: throw new Error(`Unknown PNG filter type ${type}`);
+      }
+      out[row + x] = (data[src + x] + predictor) & 0xff;
+    }
+  }
+  return out;
+}
+
+// Non-interlaced PNG of any color type and bit depth, as 8-bit RGBA. Samples
+// of 16-bit images keep their high byte; color profiles and gamma are ignored.
+export function decodePng(bytes: Uint8Array): ImageData {
+  if (bytes.length < 8 || SIGNATURE.some((b, i) => bytes[i] !== b)) throw new Error('Not a PNG file');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let width = 0; let height = 0; let depth = 0; let colorType = 0;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const idat: Uint8Array[] = [];
+  for (let pos = 8; pos + 12 <= bytes.length; ) {
+    const length = view.getUint32(pos);
+    const type = String.fromCharCode(...bytes.subarray(pos + 4, pos + 8));
+    const start = pos + 8;
+    const data = bytes.subarray(start, start + length);
+    if (data.length !== length) throw new Error('PNG file is truncated');
+    pos = start + length + 4;
+    if (type === 'IHDR') {
+      width = view.getUint32(start);
+      height = view.getUint32(start + 4);
+      depth = data[8];
+      colorType = data[9];
+      if (!CHANNELS[colorType] || ![1, 2, 4, 8, 16].includes(depth)) throw new Error(`Unsupported PNG color type ${colorType} at ${depth} bits`);
+      if (data[12]) throw new Error('Interlaced PNGs are not supported');
+    } else if (type === 'PLTE') palette = data;
+    else if (type === 'tRNS') transparency = data;
+    else if (type === 'IDAT') idat.push(data);
+    else if (type === 'IEND') break;
+  }
+  if (!width || !height || !idat.length) throw new Error('PNG file has no image data');
+  if (colorType === 3 && !palette) throw new Error('PNG file has no palette');
+
+  const samples = CHANNELS[colorType];
+  const stride = Math.ceil((width * samples * depth) / 8);
+  const raw = unfilterScanlines(inflate(concat(idat)), height, stride, Math.max(1, (samples * depth) >> 3));
+  // sample `i` of row `y`, at its original bit depth
+  const sample = (y: number, i: number) => {
+    const row = y * stride;
+    if (depth === 8) return raw[row + i];
+    if (depth === 16) return (raw[row + i * 2] << 8) | raw[row + i * 2 + 1];
+    const bit = i * depth;
+    return (raw[row + (bit >> 3)] >> (8 - depth - (bit & 7))) & ((1 << depth) - 1);
+  };
+  const max = (1 << depth) - 1;
+  const to8 = (v: number) => (depth === 16 ? v >> 8 : depth === 8 ? v : Math.round((v * 255) / max));
+  // tRNS marks one exact gray or RGB value as transparent
+  const key = transparency && (colorType === 0 || colorType === 2)
+    ? Array.from({ length: transparency.length >> 1 }, (_, i) => (transparency![i * 2] << 8) | transparency![i * 2 + 1])
+    : null;
+
+  const img = new ImageData(width, height);
+  const out = img.data;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      const s = x * samples;
+      if (colorType === 3) {
+        const index = sample(y, s);
+        out[o] = palette![index * 3]; out[o + 1] = palette![index * 3 + 1]; out[o + 2] = palette![index * 3 + 2];
+        out[o + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+        continue;
+      }
+      const gray = colorType === 0 || colorType === 4;
+      const values = gray ? [sample(y, s), sample(y, s), sample(y, s)] : [sample(y, s), sample(y, s + 1), sample(y, s + 2)];
+      out[o] = to8(values[0]); out[o + 1] = to8(values[1]); out[o + 2] = to8(values[2]);
+      if (colorType === 4 || colorType === 6) out[o + 3] = to8(sample(y, s + samples - 1));
+      else out[o + 3] = key && (gray ? values[0] === key[0] : values.every((v, c) => v === key[c])) ? 0 : 255;
+    }
+  }
+  return img;
+}
@@ -0,0 +1,31 @@
+// Proxy resolution for editing. The editor evaluates the graph at a fraction
+// of its real size; the selected node, the inspector and exports still get
+// full-resolution images. The choice is an editor preference, not part of
+// the document.
+
+export const PROXY_SCALES = [1, 0.5, 0.25, 0.125];
+
+export const DEFAULT_PROXY_SCALE = 0.5;
+
+const PROXY_KEY = 'agentic-node-editor:proxy';
+
+export function proxyLabel(scale: number): string {
+  return scale === 1 ? 'Full' : `1/${Math.round(1 / scale)}`;
+}
+
+export function readProxyScale(): number {
+  try {
+    const scale = Number(localStorage.getItem(PROXY_KEY));
+    return PROXY_SCALES.includes(scale) ? scale : DEFAULT_PROXY_SCALE;
+  } catch (e) {
+    return DEFAULT_PROXY_SCALE;
+  }
+}
+
+export function writeProxyScale(scale: number) {
+  try {
+    localStorage.setItem(PROXY_KEY, String(scale));
+  } catch (e) {
+    // storage disabled; the choice lasts for this session
+  }
+}
@@ -0,0 +1,86 @@
+import '@/lib/imageDataPolyfill';
+import { GraphDocument, GraphDocumentError, migrateGraphDocument } from '@/lib/document';
+import { GraphEvaluator, toEvalGraph } from '@/lib/graph';
+import { Resolution, defaultParams, getNodeDefinition } from '@/lib/nodes';
+import { decodePng } from '@/lib/png';
+
+// Headless rendering of saved documents, used by the render API route
+
+export class RenderError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'RenderError';
+  }
+}
+
+// Parameter values keyed by node id; '*' applies to every node that has the
+// parameter, e.g. `{ '*': { seed: 7 } }`. Ids inside groups are `group/node`.
+export type ParamOverrides = Record<string, Record<string, unknown>>;
+
+export type RenderRequest = {
+  graph: unknown;
+  overrides?: ParamOverrides;
+  // display node to render; the first one when omitted
+  output?: string;
+  resolution?: Resolution;
+  // animation frame, 0 by default
+  frame?: number;
+};
+
+function readRequest(body: any): { doc: GraphDocument; overrides: ParamOverrides; output?: string; resolution?: Resolution; frame: number } {
+  if (!body || typeof body !== 'object') throw new RenderError('Request body must be a JSON object', 400);
+  let doc: GraphDocument;
+  try {
+    doc = migrateGraphDocument(body.graph);
+  } catch (e) {
+    throw new RenderError(e instanceof GraphDocumentError ? `Invalid graph: ${e.message}` : 'Invalid graph', 400);
+  }
+  const unknown = doc.nodes.filter(n => !getNodeDefinition(n.type)).map(n => n.type);
+  if (unknown.length) throw new RenderError(`Unknown node type(s): ${Array.from(new Set(unknown)).join(', ')}`, 400);
+  const overrides = body.overrides ?? {};
+  if (typeof overrides !== 'object' || Object.values(overrides).some(v => !v || typeof v !== 'object')) throw new RenderError('"overrides" must map node ids to parameter objects', 400);
+  if (body.output !== undefined && typeof body.output !== 'string') throw new RenderError('"output" must be a node id', 400);
+  const resolution = body.resolution;
+  if (resolution !== undefined && !(resolution.width >= 1 && resolution.height >= 1 && resolution.width <= 8192 && resolution.height <= 8192)) {
+    throw new RenderError('"resolution" needs a width and height between 1 and 8192', 400);
+  }
+  const frame = body.frame ?? 0;
+  if (!Number.isInteger(frame) || frame < 0 || frame >= doc.settings.frames) throw new RenderError(`"frame" must be a whole number from 0 to ${doc.settings.frames - 1}`, 400);
+  return { doc, overrides, output: body.output, resolution: resolution && { width: Math.round(resolution.width), height: Math.round(resolution.height) }, frame };
+}
+
+// Node has no image codecs, so embedded images are decoded with our own PNG
+// decoder; other formats are rejected before evaluation
+const PNG_DATA_URL = /^data:image\/png(;[^,;]*)*;base64,/;
+
+async function decodeDataUrl(src: string): Promise<ImageData> {
+  const match = PNG_DATA_URL.exec(src);
+  if (!match) throw new Error('Only PNG images can be rendered on the server');
+  return decodePng(Uint8Array.from(atob(src.slice(match[0].length)), c => c.charCodeAt(0)));
+}
+
+// Replace the editor's random defaults, so a saved graph without a seed
+// renders the same image on every request
+const SERVER_DEFAULTS: Record<string, unknown> = { seed: 0 };
+
+// Evaluates the document and returns the image shown by one display node
+export async function renderDocument(body: RenderRequest): Promise<ImageData> {
+  const { doc, overrides, output, resolution, frame } = readRequest(body);
+  const target = output ?? doc.nodes.find(n => n.type === 'display')?.id;
+  if (!target) throw new RenderError('The graph has no display node', 404);
+  if (!doc.nodes.some(n => n.id === target && n.type === 'display')) throw new RenderError(`No display node "${target}"`, 404);
+
+  const graph = toEvalGraph(doc.nodes, doc.edges, resolution ?? doc.settings, frame);
+  graph.nodes = graph.nodes.map(n => {
+    const def = getNodeDefinition(n.type)!;
+    const ownParams = (values: Record<string, unknown>) => Object.fromEntries(Object.entries(values).filter(([key]) => def.params.some(p => p.key === key)));
+    return { ...n, data: { ...defaultParams(def), ...ownParams(SERVER_DEFAULTS), ...n.data, ...ownParams(overrides['*'] ?? {}), ...overrides[n.id] } };
+  });
+  const unsupported = graph.nodes.filter(n => n.type === 'imageImport' && n.data.image && !PNG_DATA_URL.test(n.data.image.src ?? ''));
+  if (unsupported.length) throw new RenderError(`Image node(s) ${unsupported.map(n => n.id).join(', ')}: only embedded PNG images can be rendered on the server`, 400);
+  const result = await new GraphEvaluator({ decodeImage: decodeDataUrl }).evaluate(graph);
+  const image = result?.outputs[target];
+  const status = result?.status[target];
+  if (!image) throw new RenderError(status?.message ? `Display node ${target}: ${status.message}` : `Display node ${target} produced no image`, 422);
+  return image;
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, GraphDocumentError, serializeGraph } from '@/lib/document';
+import { MAX_LINK_LENGTH, hasEmbeddedImages, hasSharedGraph, readSharedGraph, shareLink } from '@/lib/share';
+
+const location = { origin: 'https://example.com', pathname: '/editor', search: '?a=1' };
+const at = { x: 0, y: 0 };
+const doc = serializeGraph(
+  Array.from({ length: 30 }, (_, i) => ({ id: String(i + 1), type: 'perlin', position: { x: i * 40, y: 0 }, data: { scale: 4, seed: i, title: 'Nöise' } })),
+  Array.from({ length: 29 }, (_, i) => ({ id: `e${i}`, source: String(i + 1), target: String(i + 2), targetHandle: 'in' })),
+  DEFAULT_SETTINGS,
+);
+
+describe('shareLink', () => {
+  it('round-trips the document through the URL hash', async () => {
+    const link = shareLink(doc, location);
+    expect(link.startsWith('https://example.com/editor?a=1#graph=')).toBe(true);
+    const hash = new URL(link).hash;
+    expect(hasSharedGraph(hash)).toBe(true);
+    expect(await readSharedGraph(hash)).toEqual(doc);
+  });
+
+  it('keeps ordinary graphs well under the length limit', () => {
+    expect(shareLink(doc, location).length).toBeLessThan(MAX_LINK_LENGTH / 4);
+  });
+
+  it('reports damaged links', async () => {
+    const hash = new URL(shareLink(doc, location)).hash;
+    await expect(readSharedGraph(hash.slice(0, 60))).rejects.toThrow(GraphDocumentError);
+    await expect(readSharedGraph('#graph=!!')).rejects.toThrow('The link is damaged or incomplete');
+  });
+});
+
+describe('hasEmbeddedImages', () => {
+  it('finds images, also inside groups', () => {
+    const image = { id: 'i', type: 'imageImport', position: at, data: { image: { name: 'a.png', src: 'data:image/png;base64,' } } };
+    expect(hasEmbeddedImages(doc.nodes)).toBe(false);
+    expect(hasEmbeddedImages([{ ...image, data: { image: null } }])).toBe(false);
+    expect(hasEmbeddedImages([image])).toBe(true);
+    expect(hasEmbeddedImages([{ id: 'g', type: 'group', position: at, data: { graph: { nodes: [image], edges: [] } } }])).toBe(true);
+  });
+});
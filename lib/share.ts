@@ -0,0 +1,48 @@
+import { deflateRaw, inflateRaw } from '@/lib/deflate';
+import { DocumentNode, GraphDocument, GraphDocumentError, parseGraphDocument } from '@/lib/document';
+import type { GroupGraph } from '@/lib/nodes/groups';
+
+// Shareable links: the whole document, deflated and base64url-encoded, in the
+// URL hash (`#graph=...`). Nothing is stored anywhere else.
+
+const HASH_PREFIX = '#graph=';
+
+// Longer URLs get truncated by chat apps, mail clients and servers that
+// log or forward them
+export const MAX_LINK_LENGTH = 32_000;
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+export function hasSharedGraph(hash: string): boolean {
+  return hash.startsWith(HASH_PREFIX);
+}
+
+// Embedded images are what usually makes a graph too large for a link
+export function hasEmbeddedImages(nodes: DocumentNode[]): boolean {
+  return nodes.some(n => (n.type === 'imageImport' && Boolean(n.data.image)) || (n.type === 'group' && hasEmbeddedImages((n.data.graph as GroupGraph | undefined)?.nodes ?? [])));
+}
+
+// Link to the current page that opens `doc`
+export function shareLink(doc: GraphDocument, location: { origin: string; pathname: string; search: string }): string {
+  const hash = HASH_PREFIX + toBase64Url(deflateRaw(new TextEncoder().encode(JSON.stringify(doc))));
+  return `${location.origin}${location.pathname}${location.search}${hash}`;
+}
+
+export async function readSharedGraph(hash: string): Promise<GraphDocument> {
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(inflateRaw(fromBase64Url(hash.slice(HASH_PREFIX.length))));
+  } catch (e) {
+    throw new GraphDocumentError('The link is damaged or incomplete');
+  }
+  return parseGraphDocument(text);
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, GRAPH_DOCUMENT_FORMAT, GRAPH_DOCUMENT_VERSION, GraphDocument } from '@/lib/document';
+import { renderTask } from '@/lib/export';
+import { GraphEvaluator } from '@/lib/graph';
+import { getNodeDefinition } from '@/lib/nodes';
+import { numberSweep, thumbnailScale, toVariation, variationGrid, variationTasks } from '@/lib/variations';
+
+const perlin = getNodeDefinition('perlin')!;
+const spec = (key: string) => perlin.params.find(p => p.key === key)!;
+
+describe('numberSweep', () => {
+  it('spaces values evenly and keeps whole-number parameters whole', () => {
+    expect(numberSweep(spec('seed'), 0, 3, 7)).toEqual([0, 1, 2, 3]);
+    expect(numberSweep(getNodeDefinition('levels')!.params.find(p => p.key === 'gamma')!, 0.5, 1.5, 3)).toEqual([0.5, 1, 1.5]);
+  });
+});
+
+describe('variationGrid', () => {
+  it('lays out columns from the first axis and rows from the second', () => {
+    const grid = variationGrid([{ node: '1', spec: spec('seed'), values: [1, 2] }, { node: 'g/2', spec: spec('scale'), values: [4, 8, 16] }]);
+    expect(grid.map(row => row.map(cell => cell.map(c => c.value)))).toEqual([[[1, 4], [2, 4]], [[1, 8], [2, 8]], [[1, 16], [2, 16]]]);
+    expect(variationTasks(grid, 'out', 3, 1)[1]).toEqual({ output: 'out', frame: 3, scale: 1, changes: [{ node: '1', key: 'seed', value: 2 }, { node: 'g/2', key: 'scale', value: 4 }] });
+  });
+
+  it('renders each cell with its changes applied', async () => {
+    const at = { x: 0, y: 0 };
+    const doc: GraphDocument = {
+      format: GRAPH_DOCUMENT_FORMAT, version: GRAPH_DOCUMENT_VERSION, settings: { ...DEFAULT_SETTINGS, width: 8, height: 8 },
+      nodes: [{ id: '1', type: 'perlin', position: at, data: { scale: 4, seed: 1 } }, { id: '2', type: 'display', position: at, data: {} }],
+      edges: [{ id: 'e', source: '1', target: '2', targetHandle: 'in' }],
+    };
+    const grid = variationGrid([{ node: '1', spec: spec('seed'), values: [1, 2, 1] }]);
+    const evaluator = new GraphEvaluator();
+    const cells = [];
+    for (const [i, task] of variationTasks(grid, '2', 0, thumbnailScale(doc.settings)).entries()) cells.push(toVariation(grid[0][i], (await renderTask(evaluator, doc, task, () => false))!));
+    expect(cells[0].image!.data).toEqual(cells[2].image!.data);
+    expect(cells[0].image!.data).not.toEqual(cells[1].image!.data);
+    expect(toVariation([], { image: null, error: 'Input In not connected' }).error).toBe('Input In not connected');
+  });
+
+  it('renders thumbnails rather than full-size images', async () => {
+    const at = { x: 0, y: 0 };
+    const doc: GraphDocument = {
+      format: GRAPH_DOCUMENT_FORMAT, version: GRAPH_DOCUMENT_VERSION, settings: { ...DEFAULT_SETTINGS, width: 768, height: 384 },
+      nodes: [{ id: '1', type: 'createImage', position: at, data: { color: '#ff0000' } }, { id: '2', type: 'display', position: at, data: {} }],
+      edges: [{ id: 'e', source: '1', target: '2', targetHandle: 'in' }],
+    };
+    expect(thumbnailScale({ width: 64, height: 32 })).toBe(1);
+    const [task] = variationTasks([[[]]], '2', 0, thumbnailScale(doc.settings));
+    const { image } = (await renderTask(new GraphEvaluator(), doc, task, () => false))!;
+    expect([image!.width, image!.height]).toEqual([192, 96]);
+  });
+});
@@ -0,0 +1,83 @@
+import type { RenderTask, RenderedImage } from '@/lib/export';
+import { EvalGraph } from '@/lib/graph';
+import { ParamSpec, Resolution } from '@/lib/nodes';
+
+// Parameter sweeps for the variation explorer: every combination of one or
+// two parameters' values is rendered as a thumbnail of one output, by the
+// evaluation worker like an export.
+
+export type ParamChange = { node: string; key: string; value: unknown };
+
+export type SweepAxis = { node: string; spec: ParamSpec; values: unknown[] };
+
+export type Variation = { changes: ParamChange[]; image: ImageData | null; error?: string };
+
+// Parameters that can be swept: numbers over a range, every option of a
+// select, both states of a toggle
+export function isSweepable(spec: ParamSpec): boolean {
+  return spec.control === 'number' || spec.control === 'range' || spec.control === 'select' || spec.control === 'toggle';
+}
+
+// `count` evenly spaced values from `from` to `to`; whole-number steps (seeds,
+// sizes) give whole numbers, without repeats
+export function numberSweep(spec: ParamSpec, from: number, to: number, count: number): number[] {
+  const step = spec.control === 'number' || spec.control === 'range' ? spec.step : undefined;
+  const whole = Boolean(step && Number.isInteger(step));
+  const values = Array.from({ length: count }, (_, i) => (count > 1 ? from + ((to - from) * i) / (count - 1) : from));
+  return whole ? Array.from(new Set(values.map(Math.round))) : values.map(v => Number(v.toPrecision(6)));
+}
+
+// Default sweep around a parameter's current value
+export function defaultSweep(spec: ParamSpec, value: unknown): { from: number; to: number } {
+  const v = Number(value) || 0;
+  if (spec.control !== 'number' && spec.control !== 'range') return { from: v, to: v };
+  // seeds and other counters step through neighbouring values
+  if (spec.step && Number.isInteger(spec.step)) return { from: v, to: Math.min(spec.max ?? Infinity, v + 7 * spec.step) };
+  if (spec.min !== undefined && spec.max !== undefined) return { from: spec.min, to: spec.max };
+  return { from: v / 2, to: v * 2 || 1 };
+}
+
+export function formatValue(value: unknown): string {
+  return typeof value === 'number' ? String(Number(value.toPrecision(4))) : String(value);
+}
+
+export function withChanges(graph: EvalGraph, changes: ParamChange[]): EvalGraph {
+  return {
+    ...graph,
+    nodes: graph.nodes.map(n => {
+      const mine = changes.filter(c => c.node === n.id);
+      return mine.length ? { ...n, data: { ...n.data, ...Object.fromEntries(mine.map(c => [c.key, c.value])) } } : n;
+    }),
+  };
+}
+
+// Changes of every cell, row by row: columns follow the first axis, rows
+// the second. Node ids are expanded ids.
+export function variationGrid(axes: SweepAxis[]): ParamChange[][][] {
+  const [columns, rows] = [axes[0], axes[1]];
+  return (rows?.values ?? [undefined]).map(rowValue => (columns?.values ?? [undefined]).map(columnValue => {
+    const changes: ParamChange[] = [];
+    if (columns) changes.push({ node: columns.node, key: columns.spec.key, value: columnValue });
+    if (rows) changes.push({ node: rows.node, key: rows.spec.key, value: rowValue });
+    return changes;
+  }));
+}
+
+// Longest side of a variation thumbnail, in the explorer and the contact sheet
+export const THUMBNAIL_SIZE = 192;
+
+// Proxy scale that fits the document into a thumbnail; pixel-unit parameters
+// scale with it, so a thumbnail looks like the full output
+export function thumbnailScale({ width, height }: Resolution): number {
+  return Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+}
+
+// One render task per cell, in row order. Upstream of the swept nodes is
+// computed once and served from the worker's cache for every cell.
+export function variationTasks(grid: ParamChange[][][], output: string, frame: number, scale: number): RenderTask[] {
+  return grid.flat().map(changes => ({ output, frame, scale, changes }));
+}
+
+export function toVariation(changes: ParamChange[], rendered: RenderedImage): Variation {
+  return { changes, image: rendered.image, error: rendered.image ? undefined : rendered.error ?? 'No image' };
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, inflateRaw } from '@/lib/deflate';
+import { createZip } from '@/lib/zip';
+
+type Entry = { name: string; method: number; crc: number; data: Uint8Array };
+
+// Reads the archive through its central directory, as unzip tools do
+function readZip(zip: Uint8Array): Entry[] {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const entries: Entry[] = [];
+  let pos = view.getUint32(end + 16, true);
+  for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+    expect(view.getUint32(pos, true)).toBe(0x02014b50);
+    const method = view.getUint16(pos + 10, true);
+    const size = view.getUint32(pos + 20, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const name = new TextDecoder().decode(zip.subarray(pos + 46, pos + 46 + nameLength));
+    const local = view.getUint32(pos + 42, true);
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+    const start = local + 30 + view.getUint16(local + 26, true);
+    const body = zip.subarray(start, start + size);
+    entries.push({ name, method, crc: view.getUint32(pos + 16, true), data: method === 8 ? inflateRaw(body) : body });
+    pos += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('createZip', () => {
+  it('stores images, deflates everything else and records CRCs', () => {
+    const png = Uint8Array.from({ length: 100 }, (_, i) => i);
+    const manifest = new TextEncoder().encode(JSON.stringify({ files: new Array(50).fill('image.png') }));
+    const entries = readZip(createZip([{ name: 'Bild ä.png', data: png }, { name: 'manifest.json', data: manifest }]));
+    expect(entries.map(e => [e.name, e.method])).toEqual([['Bild ä.png', 0], ['manifest.json', 8]]);
+    expect(entries[0].data).toEqual(png);
+    expect(entries[1].data).toEqual(manifest);
+    for (const e of entries) expect(e.crc).toBe(crc32(e.data));
+  });
+
+  it('writes an empty archive', () => {
+    expect(readZip(createZip([]))).toEqual([]);
+  });
+});